@@ -1,19 +1,61 @@
-import { useRef, useEffect, useState } from 'react'
+import { useRef, useEffect, useState, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
+import toast, { Toaster } from 'react-hot-toast'
 import { useTensorFlowHandTracking } from './hooks/useTensorFlowHandTracking'
 import { useCameraDevice } from './hooks/useCameraDevice'
 import { CameraSelector } from './components/CameraSelector'
+import { TrackerSelector } from './components/TrackerSelector'
+import { RecordingControls } from './components/RecordingControls'
+import { GestureTrainer } from './components/GestureTrainer'
+import { SaveSlots } from './components/SaveSlots'
+import { TalentTree } from './components/TalentTree'
 import { MagicSpellSystem } from './components/MagicSpellSystem'
+import { GestureDrill } from './components/GestureDrill'
+import { ModeSelect } from './components/ModeSelect'
+import { GameResults } from './components/GameResults'
+import { Tutorial } from './components/Tutorial'
+import { Leaderboard } from './components/Leaderboard'
+import { AchievementGallery } from './components/AchievementGallery'
 import { HandSkeleton3D } from './components/HandSkeleton3D'
+import { DebugHud } from './components/DebugHud'
 import { useStore } from './store/useStore'
+import { downloadRecording } from './lib/handRecording'
+import { readTutorialDone, writeTutorialDone } from './lib/saves'
+import { PLAYER_MAX_HEALTH } from './game/defense'
+import { MAX_MANA } from './game/constants'
+import { experienceToNextLevel } from './game/progression'
+import { spentTalentPoints, talentPoints } from './game/talents'
+import type { GameModeId, GameResult } from './game/modes'
+import { ACHIEVEMENTS, type Achievement } from './game/achievements'
+import { gameplayEvents } from './game/gameplayEvents'
+
+const notifyAchievement = (achievement: Achievement) =>
+  toast(
+    <div>
+      <div className='font-bold'>업적 달성!</div>
+      <div className='text-sm'>{achievement.name}</div>
+    </div>,
+    { icon: achievement.icon, duration: 4000 }
+  )
 
 function App() {
   const videoRef = useRef<HTMLVideoElement>(null)
   const displayVideoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [mana, setMana] = useState(100)
-  const [experience, setExperience] = useState(0)
-  const [level, setLevel] = useState(1)
+  const [health, setHealth] = useState(PLAYER_MAX_HEALTH)
+  // Bumped on restart to remount the game with fresh enemies and waves
+  const [gameId, setGameId] = useState(0)
+  // Null until a mode is picked; kept alongside the result so the run can be retried
+  const [mode, setMode] = useState<GameModeId | null>(null)
+  const [result, setResult] = useState<GameResult | null>(null)
+  // New players get the onboarding before the mode select screen
+  const [showTutorial, setShowTutorial] = useState(() => !readTutorialDone())
+  const [levelUpTo, setLevelUpTo] = useState<number | null>(null)
+  const [showTrainer, setShowTrainer] = useState(false)
+  const [showSaves, setShowSaves] = useState(false)
+  const [showTalents, setShowTalents] = useState(false)
+  const [showLeaderboard, setShowLeaderboard] = useState(false)
+  const [showAchievements, setShowAchievements] = useState(false)
 
   // Use unified camera device hook
   const {
@@ -29,16 +71,36 @@ function App() {
 
   // Use TensorFlow hand tracking with the shared stream
   const {
-    handData,
+    hands,
     error: trackingError,
+    isLoading: trackingLoading,
     initialize,
     stop,
     isModelReady,
+    isRecording,
+    startRecording,
+    stopRecording,
+    isReplaying,
+    startReplay,
+    stopReplay,
+    getTelemetry,
   } = useTensorFlowHandTracking(stream)
-  const { cameraEnabled } = useStore()
+  const { cameraEnabled, debugHudVisible, trackerBackend, setTrackerBackend, level, experience, mana, setMana, talents } = useStore()
+  const unlockedCount = Object.keys(useStore((state) => state.unlockedAchievements)).length
+  const unspentTalentPoints = talentPoints(level) - spentTalentPoints(talents)
 
   const error = cameraError || trackingError
 
+  // Replayed input drives the same overlays as the live camera
+  const handsActive = cameraEnabled || isReplaying
+
+  const handleStopRecording = () => {
+    const recording = stopRecording()
+    if (recording && recording.frames.length > 0) {
+      downloadRecording(recording)
+    }
+  }
+
   // Initialize camera and hand tracking when enabled
   useEffect(() => {
     let mounted = true
@@ -82,11 +144,26 @@ function App() {
     }
   }, [stream])
 
+  // Load user-trained gestures, discovered combos and achievements from IndexedDB
   useEffect(() => {
-    // Add keyboard shortcut for camera toggle
+    useStore.getState().loadCustomGestures().catch((err) => {
+      console.error('Failed to load custom gestures:', err)
+    })
+    useStore.getState().loadDiscoveredCombos().catch((err) => {
+      console.error('Failed to load discovered combos:', err)
+    })
+    // Never rejects - a failed load falls back to fresh progress
+    useStore.getState().loadAchievements().then((unlocked) => unlocked.forEach(notifyAchievement))
+  }, [])
+
+  useEffect(() => {
+    // Add keyboard shortcuts for camera and debug HUD toggles
     const handleKeyPress = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return
       if (e.key === 'c') {
         useStore.getState().setCameraEnabled(!useStore.getState().cameraEnabled)
+      } else if (e.key === 'd') {
+        useStore.getState().setDebugHudVisible(!useStore.getState().debugHudVisible)
       }
     }
 
@@ -94,26 +171,59 @@ function App() {
     return () => window.removeEventListener('keypress', handleKeyPress)
   }, [])
 
-  // Handle experience and level up
-  const handleExperienceGain = (exp: number) => {
-    setExperience((prev) => {
-      const newExp = prev + exp
-      if (newExp >= 100) {
-        setLevel((l) => l + 1)
-        return newExp - 100
-      }
-      return newExp
-    })
-  }
+  // Listen in on gameplay through the event bus rather than callbacks threaded into the game
+  useEffect(() => {
+    const unsubscribes = [
+      gameplayEvents.on('manaChanged', (payload) => useStore.getState().setMana(payload.mana)),
+      gameplayEvents.on('levelUp', (payload) => setLevelUpTo(payload.level)),
+      gameplayEvents.onAny((event) => useStore.getState().trackAchievements(event).forEach(notifyAchievement)),
+    ]
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [])
 
-  // Handle mana regeneration
   useEffect(() => {
-    const interval = setInterval(() => {
-      setMana((prev) => Math.min(100, prev + 2))
-    }, 1000)
-    return () => clearInterval(interval)
+    if (levelUpTo === null) return
+    const timer = setTimeout(() => setLevelUpTo(null), 3000)
+    return () => clearTimeout(timer)
+  }, [levelUpTo])
+
+  // A fresh game starts from whatever mana the store holds (a loaded slot keeps its own)
+  const startNewGame = () => {
+    setHealth(PLAYER_MAX_HEALTH)
+    setGameId((id) => id + 1)
+  }
+
+  // Every run starts on full mana so scores stay comparable
+  const startRun = (nextMode: GameModeId) => {
+    setMana(MAX_MANA)
+    setResult(null)
+    setMode(nextMode)
+    startNewGame()
+  }
+
+  // The tutorial's guided cast has no results screen - it goes straight on to mode select
+  const handleFinish = useCallback((finished: GameResult) => {
+    if (finished.mode === 'tutorial') {
+      writeTutorialDone()
+      setMode(null)
+      return
+    }
+    setResult(finished)
   }, [])
 
+  const skipTutorial = () => {
+    writeTutorialDone()
+    setShowTutorial(false)
+  }
+
+  // Gesture lessons done - finish with a real cast at the scarecrow
+  const handleTutorialComplete = () => {
+    setShowTutorial(false)
+    startRun('tutorial')
+  }
+
+  const playing = mode !== null && result === null
+
   return (
     <div className='relative min-h-screen bg-black overflow-hidden'>
       {/* Main Camera View with Magic Overlay */}
@@ -145,17 +255,20 @@ function App() {
       <video ref={videoRef} className='hidden' autoPlay playsInline />
 
       {/* Hand Skeleton Visualization */}
-      {cameraEnabled && <HandSkeleton3D handData={handData} />}
-
-      {/* Magic Spell System Overlay */}
-      <div className='absolute inset-0 pointer-events-none z-10'>
-        <MagicSpellSystem
-          handData={handData}
-          onManaChange={setMana}
-          onExperienceGain={handleExperienceGain}
-          mana={mana}
-        />
-      </div>
+      {handsActive && <HandSkeleton3D hands={hands} />}
+
+      {/* Magic Spell System Overlay - the drill has no combat */}
+      {playing && mode !== 'drill' && (
+        <div className='absolute inset-0 pointer-events-none z-10'>
+          <MagicSpellSystem
+            key={gameId}
+            mode={mode}
+            hands={hands}
+            onHealthChange={setHealth}
+            onFinish={handleFinish}
+          />
+        </div>
+      )}
 
       {/* Game UI Overlay */}
       <div className='relative z-20'>
@@ -185,24 +298,145 @@ function App() {
           </div>
         )}
 
+        {/* Tracking Backend Selector - compare models without reloading */}
+        {cameraEnabled && (
+          <div className='fixed top-24 left-6 bg-black/60 backdrop-blur-lg rounded-xl p-3 border border-purple-500/30'>
+            <TrackerSelector
+              backend={trackerBackend}
+              onBackendChange={setTrackerBackend}
+              isLoading={trackingLoading}
+            />
+          </div>
+        )}
+
+        {/* Custom Gesture Training */}
+        <div className='fixed bottom-48 left-6'>
+          <button
+            onClick={() => setShowTrainer((v) => !v)}
+            className='px-4 py-2 rounded-xl bg-black/60 backdrop-blur-lg border border-purple-500/30 text-white text-sm font-bold hover:scale-105 transition-all'
+          >
+            🧙 제스처 학습
+          </button>
+        </div>
+
+        {/* Talent Tree */}
+        <div className='fixed bottom-72 left-6'>
+          <button
+            onClick={() => setShowTalents((v) => !v)}
+            className='relative px-4 py-2 rounded-xl bg-black/60 backdrop-blur-lg border border-green-500/30 text-white text-sm font-bold hover:scale-105 transition-all'
+          >
+            🌳 특성
+            {unspentTalentPoints > 0 && (
+              <span className='absolute -top-2 -right-2 w-5 h-5 rounded-full bg-yellow-500 text-black text-xs flex items-center justify-center'>
+                {unspentTalentPoints}
+              </span>
+            )}
+          </button>
+        </div>
+
+        {showTalents && (
+          <div className='fixed inset-0 flex items-center justify-center bg-black/40 z-50'>
+            <TalentTree onClose={() => setShowTalents(false)} />
+          </div>
+        )}
+
+        {/* Leaderboard */}
+        <div className='fixed bottom-[21rem] left-6'>
+          <button
+            onClick={() => setShowLeaderboard((v) => !v)}
+            className='px-4 py-2 rounded-xl bg-black/60 backdrop-blur-lg border border-yellow-500/30 text-white text-sm font-bold hover:scale-105 transition-all'
+          >
+            🏆 순위표
+          </button>
+        </div>
+
+        {showLeaderboard && (
+          <div className='fixed inset-0 flex items-center justify-center bg-black/40 z-50'>
+            <Leaderboard onClose={() => setShowLeaderboard(false)} />
+          </div>
+        )}
+
+        {/* Achievements */}
+        <div className='fixed bottom-96 left-6'>
+          <button
+            onClick={() => setShowAchievements((v) => !v)}
+            className='px-4 py-2 rounded-xl bg-black/60 backdrop-blur-lg border border-orange-500/30 text-white text-sm font-bold hover:scale-105 transition-all'
+          >
+            🏅 업적 {unlockedCount}/{ACHIEVEMENTS.length}
+          </button>
+        </div>
+
+        {showAchievements && (
+          <div className='fixed inset-0 flex items-center justify-center bg-black/40 z-50'>
+            <AchievementGallery onClose={() => setShowAchievements(false)} />
+          </div>
+        )}
+
+        {/* Save Slots */}
+        <div className='fixed bottom-60 left-6'>
+          <button
+            onClick={() => setShowSaves((v) => !v)}
+            className='px-4 py-2 rounded-xl bg-black/60 backdrop-blur-lg border border-yellow-500/30 text-white text-sm font-bold hover:scale-105 transition-all'
+          >
+            💾 저장 슬롯
+          </button>
+        </div>
+
+        {showSaves && (
+          <div className='fixed inset-0 flex items-center justify-center bg-black/40 z-50'>
+            <SaveSlots onSlotLoaded={startNewGame} onClose={() => setShowSaves(false)} />
+          </div>
+        )}
+
+        {showTrainer && (
+          <div className='fixed inset-0 flex items-center justify-center bg-black/40 z-50'>
+            <GestureTrainer hands={hands} onClose={() => setShowTrainer(false)} />
+          </div>
+        )}
+
+        {/* Hand Landmark Recorder / Replay */}
+        <div className='fixed bottom-28 left-6 bg-black/60 backdrop-blur-lg rounded-xl p-3 border border-purple-500/30'>
+          <RecordingControls
+            canRecord={cameraEnabled && isModelReady}
+            isRecording={isRecording}
+            isReplaying={isReplaying}
+            onStartRecording={startRecording}
+            onStopRecording={handleStopRecording}
+            onReplay={startReplay}
+            onStopReplay={stopReplay}
+          />
+        </div>
+
         {/* Minimal Stats Display */}
         <div className='fixed top-6 right-6 space-y-2'>
           {/* Level */}
           <div className='bg-black/60 backdrop-blur-lg rounded-lg px-4 py-2 border border-yellow-500/30'>
             <span className='text-yellow-400 font-bold'>Lv.{level}</span>
-            <span className='text-white/60 text-sm ml-2'>{experience}/100</span>
+            <span className='text-white/60 text-sm ml-2'>{Math.floor(experience)}/{experienceToNextLevel(level)}</span>
           </div>
           
+          {/* Health */}
+          <div className='bg-black/60 backdrop-blur-lg rounded-lg px-4 py-2 border border-red-500/30'>
+            <span className='text-red-400 font-bold'>HP</span>
+            <span className='text-white/60 text-sm ml-2'>{health}/{PLAYER_MAX_HEALTH}</span>
+          </div>
+
           {/* Mana */}
           <div className='bg-black/60 backdrop-blur-lg rounded-lg px-4 py-2 border border-cyan-500/30'>
             <span className='text-cyan-400 font-bold'>MP</span>
-            <span className='text-white/60 text-sm ml-2'>{mana}/100</span>
+            <span className='text-white/60 text-sm ml-2'>{Math.floor(mana)}/{MAX_MANA}</span>
           </div>
         </div>
 
+        {/* Tracking Debug HUD - toggled with the D key */}
+        {debugHudVisible && (
+          <div className='fixed top-36 right-6'>
+            <DebugHud hands={hands} getTelemetry={getTelemetry} />
+          </div>
+        )}
 
         {/* Center Screen - Welcome Message (only when camera is off) */}
-        {!cameraEnabled && (
+        {!handsActive && (
           <div className='fixed inset-0 flex items-center justify-center pointer-events-none z-30'>
             <motion.div
               initial={{ opacity: 0, scale: 0.8 }}
@@ -226,12 +460,41 @@ function App() {
           </div>
         )}
 
+        {/* Gesture Accuracy Drill */}
+        {playing && mode === 'drill' && <GestureDrill key={gameId} hands={hands} onFinish={handleFinish} />}
+
+        {/* Onboarding Tutorial */}
+        {handsActive && mode === null && showTutorial && (
+          <Tutorial hands={hands} onComplete={handleTutorialComplete} onSkip={skipTutorial} />
+        )}
+
+        {/* Mode Select - before the first run and between runs */}
+        {handsActive && mode === null && !showTutorial && (
+          <div className='fixed inset-0 flex items-center justify-center z-30'>
+            <ModeSelect onSelect={startRun} onTutorial={() => setShowTutorial(true)} />
+          </div>
+        )}
+
+        {/* Results Screen */}
+        {result && mode && (
+          <div className='fixed inset-0 flex items-center justify-center bg-black/40 z-40'>
+            <GameResults
+              result={result}
+              onRetry={() => startRun(mode)}
+              onModeSelect={() => {
+                setResult(null)
+                setMode(null)
+              }}
+            />
+          </div>
+        )}
+
         {/* Spell Guide - Minimal Bottom Display */}
-        {cameraEnabled && (
+        {playing && mode !== 'drill' && (
           <div className='fixed bottom-6 left-1/2 transform -translate-x-1/2 pointer-events-none'>
             <div className='bg-black/60 backdrop-blur-lg rounded-xl px-4 py-2 border border-purple-500/30'>
               <p className='text-white/70 text-xs'>
-                ✊ 차지 → 👉 파이어볼 | ✌️ 워터 | 🤘 라이트닝 → ✋ 발사
+                ✊ 차지 → 👉 파이어볼 | ✌️ 워터 | 🤘 라이트닝 (🌳 Lv.3) + ✍️ 지그재그 룬 | 🤙 윈드 → ✋ 발사 | ✋ 유지 → 🛡️ 방패
               </p>
             </div>
           </div>
@@ -250,9 +513,17 @@ function App() {
         )}
       </div>
 
-      {/* Achievement Notification */}
+      {/* Achievement Toasts */}
+      <Toaster
+        position='top-center'
+        toastOptions={{
+          style: { background: 'rgba(0, 0, 0, 0.8)', color: '#fff', border: '1px solid rgba(249, 115, 22, 0.5)' }
+        }}
+      />
+
+      {/* Level Up Notification */}
       <AnimatePresence>
-        {experience >= 100 && (
+        {levelUpTo !== null && (
           <motion.div
             initial={{ x: 100, opacity: 0 }}
             animate={{ x: 0, opacity: 1 }}
@@ -260,7 +531,7 @@ function App() {
             className='fixed top-20 right-6 bg-gradient-to-r from-yellow-500 to-orange-500 text-white p-4 rounded-xl shadow-2xl z-50'
           >
             <div className='font-bold text-lg'>🎉 Level Up!</div>
-            <div className='text-sm'>You reached Level {level + 1}!</div>
+            <div className='text-sm'>You reached Level {levelUpTo}!</div>
           </motion.div>
         )}
       </AnimatePresence>
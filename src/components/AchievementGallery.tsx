@@ -0,0 +1,65 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ACHIEVEMENTS } from '../game/achievements';
+import { useStore } from '../store/useStore';
+
+interface Props {
+  onClose: () => void;
+}
+
+export const AchievementGallery: React.FC<Props> = ({ onClose }) => {
+  const { achievementProgress, unlockedAchievements } = useStore();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="w-[36rem] max-h-[80vh] overflow-y-auto bg-black/80 backdrop-blur-lg rounded-2xl p-6 border border-orange-500/40 text-white"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-orange-300">
+          🏅 업적 {Object.keys(unlockedAchievements).length}/{ACHIEVEMENTS.length}
+        </h3>
+        <button onClick={onClose} className="text-white/60 hover:text-white">✕</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {ACHIEVEMENTS.map(achievement => {
+          const unlockedAt = unlockedAchievements[achievement.id];
+          const progress = Math.min(achievement.progress(achievementProgress), achievement.goal);
+          return (
+            <div
+              key={achievement.id}
+              className={`rounded-lg px-3 py-3 border ${unlockedAt ? 'bg-orange-500/15 border-orange-500/50' : 'bg-white/5 border-white/10'}`}
+            >
+              <div className="flex items-center gap-3">
+                <div className={`text-4xl ${unlockedAt ? '' : 'grayscale opacity-40'}`}>{achievement.icon}</div>
+                <div className="flex-1">
+                  <div className="font-bold text-sm">{achievement.name}</div>
+                  <div className="text-white/60 text-xs">{achievement.description}</div>
+                </div>
+              </div>
+              {unlockedAt ? (
+                <div className="text-orange-300 text-[10px] mt-2">
+                  {new Date(unlockedAt).toLocaleDateString()} 달성
+                </div>
+              ) : (
+                <div className="mt-2">
+                  <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+                    <div
+                      className="h-full bg-orange-400"
+                      style={{ width: `${(progress / achievement.goal) * 100}%` }}
+                    />
+                  </div>
+                  <div className="text-white/40 text-[10px] mt-1 text-right">
+                    🔒 {progress}/{achievement.goal}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { HandData } from '../types/hand';
+import type { ChargeSnapshot } from '../game/engine';
+import { CAST_GUIDE, castGuideStage } from '../game/tutorial';
+
+interface Props {
+  hands: HandData[];
+  charges: ChargeSnapshot[];
+}
+
+// Walks the player through their first cast, lighting up the stage they are on
+export const CastGuide: React.FC<Props> = ({ hands, charges }) => {
+  const stage = castGuideStage(hands, charges);
+
+  return (
+    <div className="fixed bottom-20 left-1/2 transform -translate-x-1/2 bg-black/80 backdrop-blur-lg rounded-xl px-5 py-3 border border-purple-500/40 text-white">
+      <div className="text-purple-300 text-xs font-bold mb-2">🎓 첫 시전 - 허수아비를 맞히세요</div>
+      <div className="space-y-1">
+        {CAST_GUIDE.map((line, index) => (
+          <div
+            key={line.illustration}
+            className={`text-sm transition-all ${
+              index === stage ? 'text-yellow-300 font-bold' : index < stage ? 'text-green-400/70' : 'text-white/40'
+            }`}
+          >
+            {index < stage ? '✓' : line.illustration} {line.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
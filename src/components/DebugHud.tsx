@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { HandData } from '../types/hand';
+import type { TrackingTelemetrySnapshot } from '../lib/trackingTelemetry';
+import type { TrackerBackend } from '../lib/trackers';
+import { getFingerStates, type FingerName } from '../lib/gestureClassifier';
+import { gameplayEvents, type GameplayEvent } from '../game/gameplayEvents';
+
+export interface DebugTelemetry extends TrackingTelemetrySnapshot {
+  inputWidth: number;
+  intervalMs: number;
+  averageLatency: number;
+  backend: TrackerBackend;
+  runsInWorker: boolean;
+}
+
+interface Props {
+  hands: HandData[];
+  getTelemetry: () => DebugTelemetry;
+}
+
+// Telemetry is polled instead of pushed, so tracking never re-renders the HUD per frame
+const POLL_INTERVAL_MS = 250;
+
+const FINGERS: Array<{ name: FingerName; label: string }> = [
+  { name: 'thumb', label: 'T' },
+  { name: 'index', label: 'I' },
+  { name: 'middle', label: 'M' },
+  { name: 'ring', label: 'R' },
+  { name: 'pinky', label: 'P' }
+];
+
+// How many of the bus's latest events to list, newest first
+const EVENT_LOG_ROWS = 8;
+
+const describeEvent = (event: GameplayEvent) => {
+  switch (event.type) {
+    case 'gestureChanged':
+      return `#${event.payload.handId} ${event.payload.previous} → ${event.payload.gesture}`;
+    case 'chargeStarted':
+      return `${event.payload.spell.name} ${event.payload.handedness[0]}`;
+    case 'spellCast':
+      return `${event.payload.spell.name} ${event.payload.zone}${event.payload.combo ? ` +${event.payload.combo.name}` : ''}`;
+    case 'projectileHit':
+      return `${event.payload.spell.name} → ${event.payload.enemy}`;
+    case 'projectileMissed':
+      return event.payload.spell.name;
+    case 'targetDefeated':
+      return event.payload.enemy;
+    case 'levelUp':
+      return `Lv.${event.payload.level}`;
+    case 'manaChanged':
+      return event.payload.mana.toFixed(0);
+  }
+};
+
+const Sparkline: React.FC<{ values: number[]; max: number; color: string }> = ({ values, max, color }) => {
+  const width = 160;
+  const height = 32;
+  const points = values
+    .map((value, i) => {
+      const x = values.length > 1 ? (i / (values.length - 1)) * width : 0;
+      const y = height - (Math.min(value, max) / max) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="bg-white/5 rounded">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const last = (values: number[]) => (values.length > 0 ? values[values.length - 1] : 0);
+
+export const DebugHud: React.FC<Props> = ({ hands, getTelemetry }) => {
+  const [telemetry, setTelemetry] = useState(getTelemetry);
+  const [events, setEvents] = useState(gameplayEvents.log);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setTelemetry(getTelemetry());
+      setEvents(gameplayEvents.log());
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [getTelemetry]);
+
+  const latencyMax = Math.max(100, ...telemetry.latencyHistory);
+
+  const clearEvents = () => {
+    gameplayEvents.clearLog();
+    setEvents([]);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="w-64 bg-black/70 backdrop-blur-lg rounded-xl p-3 border border-lime-500/30 text-white text-xs font-mono space-y-2"
+    >
+      <div className="flex justify-between text-lime-300 font-bold">
+        <span>🛠 DEBUG</span>
+        <span>{telemetry.backend}{telemetry.runsInWorker ? ' · worker' : ''}</span>
+      </div>
+
+      <div>
+        <div className="flex justify-between">
+          <span>Latency</span>
+          <span>{last(telemetry.latencyHistory).toFixed(0)}ms (avg {telemetry.averageLatency.toFixed(0)})</span>
+        </div>
+        <Sparkline values={telemetry.latencyHistory} max={latencyMax} color="#f59e0b" />
+      </div>
+
+      <div>
+        <div className="flex justify-between">
+          <span>Detection FPS</span>
+          <span>{last(telemetry.fpsHistory)}</span>
+        </div>
+        <Sparkline values={telemetry.fpsHistory} max={60} color="#22d3ee" />
+      </div>
+
+      <div>
+        <div className="flex justify-between">
+          <span>Confidence</span>
+          <span>{(last(telemetry.confidenceHistory) * 100).toFixed(0)}%</span>
+        </div>
+        <Sparkline values={telemetry.confidenceHistory} max={1} color="#a855f7" />
+      </div>
+
+      <div className="flex justify-between text-white/70">
+        <span>Input {telemetry.inputWidth}px · {(1000 / telemetry.intervalMs).toFixed(0)}fps cap</span>
+        <span>Lost {telemetry.handsLost}</span>
+      </div>
+
+      {/* Per-hand gesture and finger flags */}
+      {hands.length === 0 && <div className="text-red-300">손 없음</div>}
+      {hands.map(hand => {
+        const fingers = getFingerStates(hand.keypoints.map(p => [p.x, p.y, p.z]));
+        return (
+          <div key={hand.id} className="flex items-center justify-between bg-white/5 rounded px-2 py-1">
+            <span>#{hand.id} {hand.handedness[0]} · {hand.gesture}</span>
+            <span className="flex gap-0.5">
+              {FINGERS.map(finger => (
+                <span
+                  key={finger.name}
+                  className={`w-4 text-center rounded ${fingers[finger.name] ? 'bg-lime-500 text-black' : 'bg-white/10 text-white/40'}`}
+                >
+                  {finger.label}
+                </span>
+              ))}
+            </span>
+          </div>
+        );
+      })}
+
+      {/* Latest gameplay bus events */}
+      <div>
+        <div className="flex justify-between">
+          <span>Events</span>
+          <button onClick={clearEvents} className="text-white/50 hover:text-white">
+            clear
+          </button>
+        </div>
+        {events.length === 0 && <div className="text-white/40">없음</div>}
+        {events.slice(-EVENT_LOG_ROWS).reverse().map(event => (
+          <div key={event.id} className="flex justify-between gap-2 text-white/70">
+            <span className="text-lime-300">{event.type}</span>
+            <span className="truncate">{describeEvent(event)}</span>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
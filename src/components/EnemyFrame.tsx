@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { STATUS_DEFINITIONS, type StatusEffect } from '../game/elements';
+import type { DamageKind, DamageTaken } from '../game/enemies';
+
+// Props shared by every enemy renderer
+export interface EnemyRendererProps {
+  x: number;
+  y: number;
+  health: number;
+  maxHealth: number;
+  statuses: StatusEffect[];
+  lastDamage: DamageTaken | null;
+  telegraphing?: boolean; // About to attack
+}
+
+interface Props extends EnemyRendererProps {
+  width: number;
+  height: number;
+  children: React.ReactNode;
+}
+
+// How long a damage number stays up. Burn and cloud ticks come often, so theirs are brief and quiet.
+const DAMAGE_SHOWN_MS: Record<DamageKind, number> = { hit: 500, tick: 400 };
+
+// Health bar, status icons, hit shake and damage numbers around an enemy's artwork, centred on (x, y)
+export const EnemyFrame: React.FC<Props> = ({
+  x,
+  y,
+  health,
+  maxHealth,
+  statuses,
+  lastDamage,
+  telegraphing = false,
+  width,
+  height,
+  children
+}) => {
+  const [shownDamage, setShownDamage] = useState<DamageTaken | null>(null);
+  const healthPercentage = (health / maxHealth) * 100;
+  const isHit = shownDamage?.kind === 'hit';
+
+  // Snapshots are rebuilt every frame, so new damage is recognised by its fields rather than identity
+  const damageAt = lastDamage?.at ?? null;
+  const damageAmount = lastDamage?.amount ?? 0;
+  const damageKind = lastDamage?.kind ?? 'hit';
+  useEffect(() => {
+    if (damageAt === null || damageAmount <= 0) return;
+    setShownDamage({ amount: damageAmount, kind: damageKind, at: damageAt });
+
+    const timer = setTimeout(() => setShownDamage(null), DAMAGE_SHOWN_MS[damageKind]);
+    return () => clearTimeout(timer);
+  }, [damageAt, damageAmount, damageKind]);
+
+  return (
+    <motion.div
+      className="absolute"
+      style={{
+        left: x - width / 2,
+        top: y - height / 2,
+        width,
+        height
+      }}
+      animate={{ opacity: health > 0 ? 1 : 0 }}
+    >
+      {/* Health Bar */}
+      <div className="absolute -top-4 left-1/2 transform -translate-x-1/2 w-24 h-2 bg-black/50 rounded-full">
+        <div 
+          className="h-full bg-gradient-to-r from-red-500 to-red-600 rounded-full transition-all duration-300"
+          style={{ width: `${healthPercentage}%` }}
+        />
+      </div>
+
+      {/* Status Effects - icons fade out as they expire */}
+      <div className="absolute -top-11 left-1/2 transform -translate-x-1/2 flex gap-1">
+        {statuses.map(status => {
+          const definition = STATUS_DEFINITIONS[status.id];
+          return (
+            <div
+              key={status.id}
+              title={definition.name}
+              className="w-6 h-6 flex items-center justify-center rounded-full bg-black/60 text-sm"
+              style={{ opacity: 0.4 + 0.6 * (status.remainingMs / definition.durationMs) }}
+            >
+              {definition.icon}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Attack Telegraph */}
+      {telegraphing && (
+        <motion.div
+          className="absolute inset-0 rounded-full border-4 border-red-500 pointer-events-none"
+          animate={{ scale: [0.9, 1.2, 0.9], opacity: [0.4, 1, 0.4] }}
+          transition={{ repeat: Infinity, duration: 0.4 }}
+        >
+          <div className="absolute -left-6 top-1/2 -translate-y-1/2 text-2xl font-bold text-red-500">!</div>
+        </motion.div>
+      )}
+
+      {/* Artwork */}
+      <motion.div
+        className="w-full h-full"
+        animate={isHit ? { scale: [1, 1.1, 1], rotate: [0, -5, 5, 0] } : {}}
+        transition={{ duration: 0.3 }}
+      >
+        {children}
+      </motion.div>
+
+      {/* Hit Effect */}
+      <AnimatePresence>
+        {isHit && (
+          <motion.div
+            className="absolute inset-0 pointer-events-none"
+            initial={{ opacity: 0, scale: 0.5 }}
+            animate={{ opacity: 1, scale: 1.5 }}
+            exit={{ opacity: 0, scale: 2 }}
+            transition={{ duration: 0.3 }}
+          >
+            <div className="w-full h-full rounded-full bg-gradient-radial from-yellow-400 via-orange-400 to-transparent opacity-60" />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Damage Number - big for hits, small and dim for damage over time */}
+      <AnimatePresence>
+        {shownDamage && (isHit ? (
+          <motion.div
+            key={shownDamage.at}
+            className="absolute top-0 left-1/2 transform -translate-x-1/2 text-3xl font-bold text-red-500"
+            initial={{ y: 0, opacity: 1, scale: 0.5 }}
+            animate={{ y: -50, opacity: 0, scale: 1.5 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 1 }}
+          >
+            -{Math.round(shownDamage.amount)}
+          </motion.div>
+        ) : (
+          <motion.div
+            key={shownDamage.at}
+            className="absolute top-4 left-1/2 transform -translate-x-1/2 text-sm font-semibold text-orange-300/70"
+            initial={{ y: 0, opacity: 0.8 }}
+            animate={{ y: -20, opacity: 0 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            -{Math.round(shownDamage.amount)}
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
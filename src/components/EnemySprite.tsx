@@ -0,0 +1,32 @@
+import React from 'react';
+import type { Enemy, EnemyTypeId } from '../game/enemies';
+import type { EnemyRendererProps } from './EnemyFrame';
+import { Scarecrow } from './Scarecrow';
+import { Imp } from './Imp';
+import { Wisp } from './Wisp';
+
+// One renderer per roster entry
+const RENDERERS: Record<EnemyTypeId, React.FC<EnemyRendererProps>> = {
+  dummy: Scarecrow,
+  imp: Imp,
+  wisp: Wisp
+};
+
+interface Props {
+  enemy: Enemy;
+}
+
+export const EnemySprite: React.FC<Props> = ({ enemy }) => {
+  const Renderer = RENDERERS[enemy.type];
+  return (
+    <Renderer
+      x={enemy.x}
+      y={enemy.y}
+      health={enemy.health}
+      maxHealth={enemy.maxHealth}
+      statuses={enemy.statuses}
+      lastDamage={enemy.lastDamage}
+      telegraphing={enemy.telegraphing}
+    />
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { formatDuration, getGameMode, type GameResult } from '../game/modes';
+import {
+  PLAYER_NAME_MAX_LENGTH,
+  entryFromResult,
+  loadLeaderboard,
+  rankEntries,
+  readPlayerName,
+  saveLeaderboardEntry,
+  writePlayerName
+} from '../lib/leaderboard';
+
+interface Props {
+  result: GameResult;
+  onRetry: () => void;
+  onModeSelect: () => void;
+}
+
+export const GameResults: React.FC<Props> = ({ result, onRetry, onModeSelect }) => {
+  const mode = getGameMode(result.mode);
+  const [playerName, setPlayerName] = useState(readPlayerName);
+  const [rank, setRank] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Store the run under the typed name, then report where it placed in this mode overall
+  const handleSave = async () => {
+    const name = playerName.trim();
+    if (!name) {
+      setError('이름을 입력하세요.');
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      const entry = entryFromResult(result, name);
+      await saveLeaderboardEntry(entry);
+      writePlayerName(name);
+      const ranked = rankEntries(await loadLeaderboard(), result.mode, 'all');
+      setRank(ranked.findIndex(other => other.id === entry.id) + 1);
+    } catch (err) {
+      console.error('Failed to save leaderboard entry:', err);
+      setError('기록을 저장하지 못했습니다.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="w-[26rem] bg-black/80 backdrop-blur-lg rounded-2xl p-6 border border-purple-500/40 text-white text-center"
+    >
+      <h3 className="text-xl font-bold text-purple-300">
+        {mode.icon} {mode.name} 결과
+      </h3>
+      <div className="text-white/50 text-xs mt-1">{formatDuration(result.durationMs)} 플레이</div>
+
+      <motion.div
+        initial={{ scale: 0.5 }}
+        animate={{ scale: 1 }}
+        className="text-6xl font-bold text-yellow-400 my-6"
+      >
+        {result.score.toLocaleString()}
+      </motion.div>
+
+      <div className="grid grid-cols-2 gap-2 mb-6">
+        {result.stats.map(stat => (
+          <div key={stat.label} className="rounded-lg bg-white/5 px-3 py-2">
+            <div className="text-white/50 text-xs">{stat.label}</div>
+            <div className="font-bold">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Leaderboard entry - once per run */}
+      {rank === null ? (
+        <div className="flex gap-2 mb-2">
+          <input
+            value={playerName}
+            onChange={(e) => setPlayerName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !saving && handleSave()}
+            maxLength={PLAYER_NAME_MAX_LENGTH}
+            placeholder="이름"
+            className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm placeholder-white/40"
+          />
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg bg-yellow-600/70 text-sm font-bold disabled:opacity-40"
+          >
+            🏆 기록 저장
+          </button>
+        </div>
+      ) : (
+        <div className="text-yellow-300 text-sm font-bold mb-2">🏆 {mode.name} {rank}위로 저장했습니다</div>
+      )}
+      {error && <p className="text-red-300 text-xs mb-2">{error}</p>}
+
+      <div className="flex gap-3 justify-center mt-4">
+        <button
+          onClick={onRetry}
+          className="px-6 py-3 rounded-xl bg-gradient-to-r from-purple-500 to-pink-600 text-white font-bold shadow-lg shadow-purple-500/30 hover:scale-105 transition-all"
+        >
+          🔄 다시 하기
+        </button>
+        <button
+          onClick={onModeSelect}
+          className="px-6 py-3 rounded-xl bg-white/10 border border-white/20 text-white font-bold hover:scale-105 transition-all"
+        >
+          🎮 모드 선택
+        </button>
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { HandData } from '../types/hand';
+import {
+  DRILL_GESTURES,
+  DRILL_PAUSE_MS,
+  DRILL_PROMPTS,
+  DRILL_TIMEOUT_MS,
+  drillAttemptScore,
+  drillResult,
+  pickDrillGesture,
+  type DrillAttempt
+} from '../game/drill';
+import type { GameResult } from '../game/modes';
+
+interface Props {
+  hands: HandData[];
+  onFinish: (result: GameResult) => void;
+}
+
+const COUNTDOWN_SECONDS = 3;
+
+interface Prompt {
+  gesture: string;
+  shownAt: number;
+}
+
+const gestureInfo = (gesture: string) => DRILL_GESTURES.find(entry => entry.gesture === gesture);
+
+const elapsedSince = (startedAt: number | null) => (startedAt === null ? 0 : performance.now() - startedAt);
+
+export const GestureDrill: React.FC<Props> = ({ hands, onFinish }) => {
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [prompt, setPrompt] = useState<Prompt | null>(null);
+  const [attempts, setAttempts] = useState<DrillAttempt[]>([]);
+  const handsRef = useRef(hands);
+  const startedAtRef = useRef<number | null>(null);
+  const lastAttempt = attempts[attempts.length - 1];
+  const done = attempts.length >= DRILL_PROMPTS;
+
+  useEffect(() => {
+    handsRef.current = hands;
+  }, [hands]);
+
+  // Count down, then show the next prompt after a short pause
+  useEffect(() => {
+    if (countdown > 0) {
+      const timer = setTimeout(() => setCountdown(c => c - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+    if (prompt || done) return;
+
+    const timer = setTimeout(() => {
+      startedAtRef.current ??= performance.now();
+      const showing = handsRef.current.map(hand => hand.gesture);
+      setPrompt({ gesture: pickDrillGesture(showing), shownAt: performance.now() });
+    }, attempts.length === 0 ? 0 : DRILL_PAUSE_MS);
+    return () => clearTimeout(timer);
+  }, [countdown, prompt, done, attempts.length]);
+
+  // A prompt nobody matches in time is a miss
+  useEffect(() => {
+    if (!prompt) return;
+    const timer = setTimeout(() => {
+      setAttempts(prev => [...prev, { gesture: prompt.gesture, reactionMs: null }]);
+      setPrompt(null);
+    }, DRILL_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [prompt]);
+
+  // Either hand showing the prompted gesture counts
+  useEffect(() => {
+    if (!prompt || !hands.some(hand => hand.gesture === prompt.gesture)) return;
+    setAttempts(prev => [...prev, { gesture: prompt.gesture, reactionMs: performance.now() - prompt.shownAt }]);
+    setPrompt(null);
+  }, [hands, prompt]);
+
+  // Hand the result up once every prompt has been answered
+  useEffect(() => {
+    if (done) onFinish(drillResult(attempts, elapsedSince(startedAtRef.current)));
+  }, [done, attempts, onFinish]);
+
+  const promptInfo = prompt && gestureInfo(prompt.gesture);
+  const currentGesture = hands[0]?.gesture ?? 'none';
+
+  return (
+    <>
+      <div className="fixed inset-0 flex items-center justify-center pointer-events-none z-30">
+        <div className="text-center text-white">
+          <div className="text-white/60 text-sm mb-4">
+            {Math.min(attempts.length + 1, DRILL_PROMPTS)}/{DRILL_PROMPTS} · 점수{' '}
+            {attempts.reduce((sum, attempt) => sum + drillAttemptScore(attempt), 0)}
+          </div>
+
+          {countdown > 0 ? (
+            <motion.div
+              key={countdown}
+              initial={{ scale: 1.5, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              className="text-8xl font-bold text-yellow-400"
+            >
+              {countdown}
+            </motion.div>
+          ) : (
+            <AnimatePresence mode="wait">
+              {promptInfo ? (
+                <motion.div
+                  key={prompt.shownAt}
+                  initial={{ scale: 0.5, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  exit={{ scale: 1.3, opacity: 0 }}
+                >
+                  <div className="text-9xl mb-4">{promptInfo.icon}</div>
+                  <div className="text-3xl font-bold mb-4">{promptInfo.name}</div>
+                  {/* Time left to match this prompt */}
+                  <div className="w-64 h-2 mx-auto rounded-full bg-white/20 overflow-hidden">
+                    <motion.div
+                      initial={{ width: '100%' }}
+                      animate={{ width: '0%' }}
+                      transition={{ duration: DRILL_TIMEOUT_MS / 1000, ease: 'linear' }}
+                      className="h-full bg-gradient-to-r from-green-400 to-yellow-400"
+                    />
+                  </div>
+                </motion.div>
+              ) : (
+                lastAttempt && (
+                  <motion.div
+                    key={attempts.length}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0 }}
+                    className={`text-4xl font-bold ${lastAttempt.reactionMs === null ? 'text-red-400' : 'text-green-400'}`}
+                  >
+                    {lastAttempt.reactionMs === null
+                      ? '❌ 시간 초과'
+                      : `✅ ${(lastAttempt.reactionMs / 1000).toFixed(2)}초 +${drillAttemptScore(lastAttempt)}`}
+                  </motion.div>
+                )
+              )}
+            </AnimatePresence>
+          )}
+
+          <div className="text-white/50 text-sm mt-6">
+            인식 중: {gestureInfo(currentGesture)?.icon ?? '❔'} {currentGesture}
+          </div>
+        </div>
+      </div>
+
+      {/* End the drill early - only answered prompts are scored */}
+      {!done && (
+        <button
+          onClick={() => onFinish(drillResult(attempts, elapsedSince(startedAtRef.current)))}
+          className="fixed bottom-6 right-6 px-4 py-2 rounded-xl bg-black/60 backdrop-blur-lg border border-white/20 text-white text-sm font-bold hover:scale-105 transition-all z-30"
+        >
+          🏁 종료
+        </button>
+      )}
+    </>
+  );
+};
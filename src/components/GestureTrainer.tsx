@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { HandData } from '../types/hand';
+import { normalizeHand, RESERVED_GESTURE_NAMES, type CustomGesture } from '../lib/customGestures';
+import { useStore } from '../store/useStore';
+
+interface Props {
+  hands: HandData[];
+  onClose: () => void;
+}
+
+const SAMPLES_PER_SESSION = 30;
+const SAMPLE_INTERVAL_MS = 100;
+const COUNTDOWN_SECONDS = 3;
+
+export const GestureTrainer: React.FC<Props> = ({ hands, onClose }) => {
+  const { customGestures, spells, saveCustomGesture, deleteCustomGesture } = useStore();
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [target, setTarget] = useState<CustomGesture | null>(null);
+  const [countdown, setCountdown] = useState(0);
+  const [samples, setSamples] = useState<number[][]>([]);
+  const handsRef = useRef(hands);
+
+  useEffect(() => {
+    handsRef.current = hands;
+  }, [hands]);
+
+  // Count down, then sample the first visible hand at a fixed interval
+  useEffect(() => {
+    if (!target) return;
+
+    if (countdown > 0) {
+      const timer = setTimeout(() => setCountdown(c => c - 1), 1000);
+      return () => clearTimeout(timer);
+    }
+
+    const interval = setInterval(() => {
+      const hand = handsRef.current[0];
+      if (!hand) return; // Skip frames where the hand dropped out
+      setSamples(prev => [...prev, normalizeHand(hand.keypoints, hand.handedness)]);
+    }, SAMPLE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [target, countdown]);
+
+  // Save once the session has enough samples
+  useEffect(() => {
+    if (!target || samples.length < SAMPLES_PER_SESSION) return;
+
+    saveCustomGesture({ ...target, samples: [...target.samples, ...samples] })
+      .catch(err => {
+        console.error('Failed to save custom gesture:', err);
+        setError('제스처를 저장하지 못했습니다.');
+      });
+    setTarget(null);
+    setSamples([]);
+  }, [target, samples, saveCustomGesture]);
+
+  const startSession = (gesture: CustomGesture) => {
+    setError(null);
+    setSamples([]);
+    setCountdown(COUNTDOWN_SECONDS);
+    setTarget(gesture);
+  };
+
+  const handleCreate = () => {
+    const trimmed = name.trim().toLowerCase();
+    if (!trimmed) {
+      setError('제스처 이름을 입력하세요.');
+      return;
+    }
+    if (RESERVED_GESTURE_NAMES.includes(trimmed)) {
+      setError(`"${trimmed}"은(는) 기본 제스처 이름입니다.`);
+      return;
+    }
+    if (customGestures.some(g => g.name === trimmed)) {
+      setError('이미 같은 이름의 제스처가 있습니다.');
+      return;
+    }
+
+    setName('');
+    startSession({
+      id: crypto.randomUUID(),
+      name: trimmed,
+      samples: [],
+      spellId: null,
+      createdAt: Date.now()
+    });
+  };
+
+  const handleBind = (gesture: CustomGesture, spellId: string) => {
+    saveCustomGesture({ ...gesture, spellId: spellId || null }).catch(err => {
+      console.error('Failed to bind custom gesture:', err);
+      setError('마법 연결을 저장하지 못했습니다.');
+    });
+  };
+
+  const handleDelete = (gesture: CustomGesture) => {
+    deleteCustomGesture(gesture.id).catch(err => {
+      console.error('Failed to delete custom gesture:', err);
+      setError('제스처를 삭제하지 못했습니다.');
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="w-[28rem] max-h-[80vh] overflow-y-auto bg-black/80 backdrop-blur-lg rounded-2xl p-6 border border-purple-500/40 text-white"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-purple-300">🧙 나만의 제스처</h3>
+        <button onClick={onClose} className="text-white/60 hover:text-white">✕</button>
+      </div>
+
+      {/* Recording Session */}
+      {target ? (
+        <div className="mb-4 p-4 rounded-xl bg-purple-900/40 text-center">
+          <div className="font-bold mb-1">"{target.name}" 녹화 중</div>
+          {countdown > 0 ? (
+            <div className="text-4xl font-bold text-yellow-400">{countdown}</div>
+          ) : (
+            <div className="text-sm text-white/70">
+              포즈를 유지하세요... {samples.length}/{SAMPLES_PER_SESSION}
+            </div>
+          )}
+          {hands.length === 0 && (
+            <div className="text-xs text-red-300 mt-2">손이 보이지 않습니다</div>
+          )}
+        </div>
+      ) : (
+        <div className="flex gap-2 mb-4">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="제스처 이름 (예: shield)"
+            className="flex-1 bg-black/50 border border-purple-500/30 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500"
+          />
+          <button
+            onClick={handleCreate}
+            className="px-4 py-2 rounded-lg bg-gradient-to-r from-purple-500 to-pink-600 font-bold text-sm"
+          >
+            녹화
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-300 text-xs mb-3">{error}</p>}
+
+      {/* Trained Gestures */}
+      <div className="space-y-2">
+        {customGestures.length === 0 && (
+          <p className="text-white/50 text-sm">아직 학습된 제스처가 없습니다.</p>
+        )}
+        {customGestures.map(gesture => (
+          <div key={gesture.id} className="flex items-center gap-2 bg-white/5 rounded-lg px-3 py-2">
+            <div className="flex-1">
+              <div className="font-bold text-sm">{gesture.name}</div>
+              <div className="text-white/50 text-xs">샘플 {gesture.samples.length}개</div>
+            </div>
+            <select
+              value={gesture.spellId ?? ''}
+              onChange={(e) => handleBind(gesture, e.target.value)}
+              className="bg-black/50 border border-purple-500/30 rounded-lg px-2 py-1 text-xs"
+            >
+              <option value="">마법 없음</option>
+              {spells.map(spell => (
+                <option key={spell.id} value={spell.id}>
+                  {spell.icon} {spell.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => startSession(gesture)}
+              disabled={!!target}
+              className="text-xs px-2 py-1 rounded bg-purple-600/60 disabled:opacity-40"
+            >
+              + 샘플
+            </button>
+            <button
+              onClick={() => handleDelete(gesture)}
+              disabled={!!target}
+              className="text-xs px-2 py-1 rounded bg-red-600/60 disabled:opacity-40"
+            >
+              삭제
+            </button>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
@@ -1,8 +1,10 @@
 import React, { useRef, useEffect } from 'react';
 import type { HandData } from '../types/hand';
+import { useViewport } from '../hooks/useViewport';
+import { fitCanvasToViewport } from '../lib/viewport';
 
 interface Props {
-  handData: HandData | null;
+  hands: HandData[];
 }
 
 const CONNECTIONS = [
@@ -29,30 +31,40 @@ const FINGER_COLORS = {
   palm: '#dfe6e9'       // Gray
 };
 
-export const HandSkeleton3D: React.FC<Props> = ({ handData }) => {
+export const HandSkeleton3D: React.FC<Props> = ({ hands }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>(0);
+  const viewport = useViewport();
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    const ctx = canvas.getContext('2d');
+    // Size for the current viewport and device pixel ratio; draw in CSS pixels
+    const ctx = fitCanvasToViewport(canvas, viewport);
     if (!ctx) return;
 
-    // Set canvas size
-    const updateCanvasSize = () => {
-      canvas.width = window.innerWidth;
-      canvas.height = window.innerHeight;
-    };
-    updateCanvasSize();
-    window.addEventListener('resize', updateCanvasSize);
-
     const render = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      if (handData && handData.keypoints) {
-        const { keypoints } = handData;
+      ctx.clearRect(0, 0, viewport.width, viewport.height);
+
+      hands.forEach((handData, handIndex) => {
+        const { keypoints, trail } = handData;
+
+        // Draw index-tip trail (rune stroke) fading out towards its oldest point
+        if (trail.length > 1) {
+          ctx.lineCap = 'round';
+          ctx.shadowBlur = 15;
+          ctx.shadowColor = FINGER_COLORS.index;
+          for (let i = 1; i < trail.length; i++) {
+            const alpha = i / trail.length;
+            ctx.strokeStyle = `rgba(78, 205, 196, ${alpha * 0.8})`;
+            ctx.lineWidth = 2 + alpha * 4;
+            ctx.beginPath();
+            ctx.moveTo(trail[i - 1].x, trail[i - 1].y);
+            ctx.lineTo(trail[i].x, trail[i].y);
+            ctx.stroke();
+          }
+        }
 
         // Draw connections (bones)
         ctx.strokeStyle = '#ffffff';
@@ -129,7 +141,7 @@ export const HandSkeleton3D: React.FC<Props> = ({ handData }) => {
           const centerY = keypoints[0].y - 50; // Above wrist
           
           // Draw background
-          const text = `Gesture: ${handData.gesture.toUpperCase()}`;
+          const text = `${handData.handedness[0]} · ${handData.gesture.toUpperCase()}`;
           const metrics = ctx.measureText(text);
           ctx.fillStyle = '#00000080';
           ctx.fillRect(
@@ -149,7 +161,7 @@ export const HandSkeleton3D: React.FC<Props> = ({ handData }) => {
         const meterWidth = 200;
         const meterHeight = 10;
         const meterX = 20;
-        const meterY = canvas.height - 30;
+        const meterY = viewport.height - 30 - handIndex * 30;
 
         // Background
         ctx.fillStyle = '#00000060';
@@ -164,8 +176,8 @@ export const HandSkeleton3D: React.FC<Props> = ({ handData }) => {
         ctx.font = '12px Arial';
         ctx.fillStyle = '#ffffff';
         ctx.textAlign = 'left';
-        ctx.fillText(`Confidence: ${Math.round(confidence * 100)}%`, meterX, meterY - 5);
-      }
+        ctx.fillText(`${handData.handedness} confidence: ${Math.round(confidence * 100)}%`, meterX, meterY - 5);
+      });
 
       animationFrameRef.current = requestAnimationFrame(render);
     };
@@ -173,17 +185,16 @@ export const HandSkeleton3D: React.FC<Props> = ({ handData }) => {
     render();
 
     return () => {
-      window.removeEventListener('resize', updateCanvasSize);
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [handData]);
+  }, [hands, viewport]);
 
   return (
     <canvas
       ref={canvasRef}
-      className="fixed inset-0 pointer-events-none z-20"
+      className="fixed inset-0 w-full h-full pointer-events-none z-20"
       style={{ mixBlendMode: 'lighten' }}
     />
   );
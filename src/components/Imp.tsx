@@ -0,0 +1,37 @@
+import React from 'react';
+import { EnemyFrame, type EnemyRendererProps } from './EnemyFrame';
+
+// Fire imp - patrols along the ground, shrugs off fire but hates water
+export const Imp: React.FC<EnemyRendererProps> = (props) => {
+  return (
+    <EnemyFrame {...props} width={80} height={100}>
+      <svg width="80" height="100" viewBox="0 0 80 100">
+        {/* Horns */}
+        <path d="M 24 28 L 18 8 L 32 22 Z" fill="#3f0d0d" />
+        <path d="M 56 28 L 62 8 L 48 22 Z" fill="#3f0d0d" />
+
+        {/* Tail */}
+        <path d="M 52 78 Q 74 80 70 60 L 76 56 L 68 54" stroke="#b91c1c" strokeWidth="3" fill="none" />
+
+        {/* Body */}
+        <ellipse cx="40" cy="70" rx="18" ry="20" fill="#dc2626" stroke="#7f1d1d" strokeWidth="2" />
+
+        {/* Head */}
+        <circle cx="40" cy="38" r="18" fill="#ef4444" stroke="#7f1d1d" strokeWidth="2" />
+
+        {/* Eyes */}
+        <path d="M 30 34 L 37 37" stroke="#000" strokeWidth="2" />
+        <path d="M 50 34 L 43 37" stroke="#000" strokeWidth="2" />
+        <circle cx="33" cy="40" r="3" fill="#facc15" />
+        <circle cx="47" cy="40" r="3" fill="#facc15" />
+
+        {/* Grin */}
+        <path d="M 32 47 Q 40 53 48 47" stroke="#000" strokeWidth="2" fill="none" />
+
+        {/* Legs */}
+        <rect x="30" y="86" width="6" height="12" fill="#7f1d1d" />
+        <rect x="44" y="86" width="6" height="12" fill="#7f1d1d" />
+      </svg>
+    </EnemyFrame>
+  );
+};
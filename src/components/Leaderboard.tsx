@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { GAME_MODES, formatDuration, type GameModeId } from '../game/modes';
+import {
+  TIME_RANGES,
+  downloadLeaderboard,
+  importLeaderboard,
+  loadLeaderboard,
+  rankEntries,
+  type LeaderboardEntry,
+  type TimeRange
+} from '../lib/leaderboard';
+
+interface Props {
+  onClose: () => void;
+}
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+export const Leaderboard: React.FC<Props> = ({ onClose }) => {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [mode, setMode] = useState<GameModeId>(GAME_MODES[0].id);
+  const [range, setRange] = useState<TimeRange>('all');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const ranked = rankEntries(entries, mode, range);
+
+  const reload = useCallback(() =>
+    loadLeaderboard()
+      .then(setEntries)
+      .catch(err => {
+        console.error('Failed to load leaderboard:', err);
+        setError('순위표를 불러오지 못했습니다.');
+      }), []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError(null);
+      const count = await importLeaderboard(await file.text());
+      setMessage(`${count}개 기록을 가져왔습니다.`);
+      await reload();
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : '순위표 파일을 읽을 수 없습니다.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="w-[40rem] max-h-[80vh] overflow-y-auto bg-black/80 backdrop-blur-lg rounded-2xl p-6 border border-yellow-500/40 text-white"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-yellow-300">🏆 순위표</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => downloadLeaderboard(entries)}
+            disabled={entries.length === 0}
+            className="text-xs px-2 py-1 rounded bg-purple-600/60 disabled:opacity-40"
+          >
+            내보내기
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs px-2 py-1 rounded bg-cyan-600/60"
+          >
+            가져오기
+          </button>
+          <button onClick={onClose} className="text-white/60 hover:text-white">✕</button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex gap-1">
+          {GAME_MODES.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMode(option.id)}
+              className={`text-xs px-2 py-1 rounded ${mode === option.id ? 'bg-yellow-500/30 border border-yellow-500/50' : 'bg-white/5'}`}
+            >
+              {option.icon} {option.name}
+            </button>
+          ))}
+        </div>
+        <select
+          value={range}
+          onChange={(e) => setRange(e.target.value as TimeRange)}
+          className="text-xs px-2 py-1 rounded bg-white/10 border border-white/20"
+        >
+          {TIME_RANGES.map(option => (
+            <option key={option.id} value={option.id} className="bg-black">
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {ranked.length === 0 ? (
+        <p className="text-white/50 text-sm text-center py-8">아직 기록이 없습니다.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-white/50 text-xs">
+              <th className="text-left py-1">순위</th>
+              <th className="text-left">이름</th>
+              <th className="text-right">점수</th>
+              <th className="text-right">명중</th>
+              <th className="text-right">최대 콤보</th>
+              <th className="text-right">시간</th>
+              <th className="text-right">날짜</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map((entry, index) => (
+              <tr key={entry.id} className="border-t border-white/10">
+                <td className="py-1">{MEDALS[index] ?? index + 1}</td>
+                <td className="font-bold">{entry.playerName}</td>
+                <td className="text-right text-yellow-400 font-bold">{entry.score.toLocaleString()}</td>
+                <td className="text-right">{entry.hits}</td>
+                <td className="text-right">{entry.maxCombo}</td>
+                <td className="text-right">{formatDuration(entry.durationMs)}</td>
+                <td className="text-right text-white/50 text-xs">{new Date(entry.date).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {message && <p className="text-green-300 text-xs mt-3">{message}</p>}
+      {error && <p className="text-red-300 text-xs mt-3 whitespace-pre-line">{error}</p>}
+    </motion.div>
+  );
+};
@@ -1,378 +1,377 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { HandData } from '../types/hand';
-import { Scarecrow } from './Scarecrow';
-
-interface Spell {
-  id: string;
-  name: string;
-  element: 'fire' | 'water' | 'wind' | 'lightning';
-  damage: number;
-  manaCost: number;
+import { EnemySprite } from './EnemySprite';
+import { CastGuide } from './CastGuide';
+import { CHARGE_ZONES, OVERCHARGE_END } from '../game/charge';
+import { aimFromHand } from '../game/aiming';
+import { isAlive } from '../game/enemies';
+import type { ComboRecipe } from '../game/combos';
+import { PLAYER_ZONE_X } from '../game/defense';
+import { spellUnlockLevel, talentModifiers } from '../game/talents';
+import {
+  CHAIN_BOLT_MS,
+  DEFAULT_RULES,
+  createGameEngine,
+  type GameEvent,
+  type GameOutcome,
+  type GameSnapshot
+} from '../game/engine';
+import { formatDuration, getGameMode, resultFromSnapshot, type GameModeId, type GameResult } from '../game/modes';
+import { gameplayEvents, publishEngineEvent } from '../game/gameplayEvents';
+import { useStore } from '../store/useStore';
+import { useViewport } from '../hooks/useViewport';
+import { fitCanvasToViewport, type Viewport } from '../lib/viewport';
+
+interface ReleaseFeedback {
+  id: number;
+  text: string;
   color: string;
-  particleColor: string;
-  gesture: string;
-  chargeTime: number;
-  icon: string;
 }
 
-interface Target {
-  x: number;
-  y: number;
-  health: number;
-  maxHealth: number;
-}
+// Charge ring geometry (r = 88)
+const RING_CIRCUMFERENCE = 553;
 
-interface SpellProjectile {
-  id: number;
-  spell: Spell;
-  x: number;
-  y: number;
-  targetX: number;
-  targetY: number;
-  speed: number;
-  particles: Particle[];
-}
+const COMBO_DISCOVERY_MS = 3500;
+// How long the game over / time up banner stays before the results screen
+const RUN_END_BANNER_MS = 2000;
 
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  color: string;
-  size: number;
-}
+const RUN_END_BANNERS: Record<Exclude<GameOutcome, 'playing'>, { title: string; color: string }> = {
+  defeated: { title: '💀 게임 오버', color: 'text-red-500' },
+  timeUp: { title: '⏱️ 시간 종료!', color: 'text-yellow-400' },
+  cleared: { title: '🎉 명중! 첫 시전 성공', color: 'text-green-400' }
+};
 
 interface Props {
-  handData: HandData | null;
-  onManaChange: (mana: number) => void;
-  onExperienceGain: (exp: number) => void;
-  mana: number;
+  mode: GameModeId;
+  hands: HandData[];
+  onHealthChange: (health: number) => void;
+  onFinish: (result: GameResult) => void;
 }
 
-const SPELLS: Spell[] = [
-  {
-    id: 'fireball',
-    name: '파이어볼',
-    element: 'fire',
-    damage: 30,
-    manaCost: 15,
-    color: '#ff6b35',
-    particleColor: '#ffa500',
-    gesture: 'point',
-    chargeTime: 1000,
-    icon: '🔥'
-  },
-  {
-    id: 'waterwave',
-    name: '워터 웨이브',
-    element: 'water',
-    damage: 20,
-    manaCost: 10,
-    color: '#4fc3f7',
-    particleColor: '#29b6f6',
-    gesture: 'peace',
-    chargeTime: 800,
-    icon: '💧'
-  },
-  {
-    id: 'lightning',
-    name: '라이트닝',
-    element: 'lightning',
-    damage: 40,
-    manaCost: 20,
-    color: '#ffd54f',
-    particleColor: '#ffeb3b',
-    gesture: 'rock',
-    chargeTime: 1500,
-    icon: '⚡'
-  }
-];
-
-export const MagicSpellSystem: React.FC<Props> = ({ 
-  handData, 
-  onManaChange, 
-  onExperienceGain,
-  mana 
-}) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [scarecrow, setScarecrow] = useState<Target>({
-    x: window.innerWidth * 0.75,
-    y: window.innerHeight / 2,
-    health: 500,
-    maxHealth: 500
+// Draw projectiles, combo effects and enemy attacks from one engine snapshot
+const drawWorld = (ctx: CanvasRenderingContext2D, viewport: Viewport, snapshot: GameSnapshot) => {
+  ctx.clearRect(0, 0, viewport.width, viewport.height);
+
+  // Render combo clouds, fading as they dissipate
+  snapshot.clouds.forEach(cloud => {
+    const remaining = Math.max(0, (cloud.expiresAt - snapshot.time) / cloud.effect.durationMs);
+    ctx.save();
+    ctx.globalAlpha = 0.25 + remaining * 0.45;
+    const gradient = ctx.createRadialGradient(cloud.x, cloud.y, 0, cloud.x, cloud.y, cloud.effect.radius);
+    gradient.addColorStop(0, cloud.effect.color + 'cc');
+    gradient.addColorStop(0.7, cloud.effect.color + '66');
+    gradient.addColorStop(1, cloud.effect.color + '00');
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(cloud.x, cloud.y, cloud.effect.radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
   });
-  const [projectiles, setProjectiles] = useState<SpellProjectile[]>([]);
-  const [currentSpell, setCurrentSpell] = useState<Spell | null>(null);
-  const [isCharging, setIsCharging] = useState(false);
-  const [chargeProgress, setChargeProgress] = useState(0);
-  const [comboCount, setComboCount] = useState(0);
-  const [hitCount, setHitCount] = useState(0);
-  const chargeStartTime = useRef<number>(0);
-  const lastGestureRef = useRef<string>('none');
-  const comboCountRef = useRef<number>(0);
-
-  // Cast spell function - defined early to be available in useEffects
-  const castSpell = useCallback((spell: Spell) => {
-    if (!handData || mana < spell.manaCost) return;
-
-    // Deduct mana
-    onManaChange(mana - spell.manaCost);
-
-    // Play spell sound effect
-    const soundMap: { [key: string]: string } = {
-      'fireball': '/fire.mp3',
-      'waterwave': '/water.mp3',
-      'lightning': '/elec.mp3'
-    };
-    
-    const soundFile = soundMap[spell.id];
-    if (soundFile) {
-      const audio = new Audio(soundFile);
-      audio.volume = 0.7;
-      audio.play().catch(err => console.log('Failed to play sound:', err));
+
+  // Render chain bolts as jagged lines between the struck enemies
+  snapshot.bolts.forEach(bolt => {
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, (bolt.expiresAt - snapshot.time) / CHAIN_BOLT_MS);
+    ctx.strokeStyle = bolt.color;
+    ctx.lineWidth = 4;
+    ctx.shadowColor = bolt.color;
+    ctx.shadowBlur = 16;
+    ctx.beginPath();
+    ctx.moveTo(bolt.points[0].x, bolt.points[0].y);
+    for (let i = 1; i < bolt.points.length; i++) {
+      const from = bolt.points[i - 1];
+      const to = bolt.points[i];
+      for (let step = 1; step <= 4; step++) {
+        const jitter = step < 4 ? (Math.random() - 0.5) * 30 : 0;
+        ctx.lineTo(from.x + ((to.x - from.x) * step) / 4 + jitter, from.y + ((to.y - from.y) * step) / 4 + jitter);
+      }
     }
+    ctx.stroke();
+    ctx.restore();
+  });
 
-    // Create projectile targeting scarecrow
-    const projectile: SpellProjectile = {
-      id: Date.now(),
-      spell,
-      x: handData.keypoints[8].x, // Index finger tip
-      y: handData.keypoints[8].y,
-      targetX: scarecrow.x,
-      targetY: scarecrow.y,
-      speed: 15,
-      particles: []
-    };
+  // Render projectiles and particles
+  snapshot.projectiles.forEach(projectile => {
+    // Draw projectile
+    ctx.save();
+    ctx.globalAlpha = 0.8;
+    ctx.fillStyle = projectile.spell.color;
+    ctx.beginPath();
+    ctx.arc(projectile.x, projectile.y, projectile.radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Glow effect
+    const glowRadius = projectile.radius * 2;
+    const gradient = ctx.createRadialGradient(
+      projectile.x, projectile.y, 0,
+      projectile.x, projectile.y, glowRadius
+    );
+    gradient.addColorStop(0, projectile.spell.color + 'ff');
+    gradient.addColorStop(1, projectile.spell.color + '00');
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(projectile.x, projectile.y, glowRadius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+
+    // Draw particles
+    projectile.particles.forEach(particle => {
+      ctx.save();
+      ctx.globalAlpha = particle.life;
+      ctx.fillStyle = particle.color;
+      ctx.beginPath();
+      ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.restore();
+    });
+  });
 
-    setProjectiles(prev => [...prev, projectile]);
-    
-    // Increase combo
-    comboCountRef.current += 1;
-    setComboCount(comboCountRef.current);
-    setTimeout(() => {
-      comboCountRef.current = Math.max(0, comboCountRef.current - 1);
-      setComboCount(comboCountRef.current);
-    }, 5000);
+  // Render enemy attacks
+  snapshot.enemyAttacks.forEach(attack => {
+    ctx.save();
+    const gradient = ctx.createRadialGradient(attack.x, attack.y, 0, attack.x, attack.y, attack.radius * 2);
+    gradient.addColorStop(0, '#fecacaff');
+    gradient.addColorStop(0.4, '#dc2626ff');
+    gradient.addColorStop(1, '#7f1d1d00');
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(attack.x, attack.y, attack.radius * 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  });
+};
 
-    setCurrentSpell(null);
-  }, [handData, scarecrow, mana, onManaChange]);
+export const MagicSpellSystem: React.FC<Props> = ({
+  mode,
+  hands,
+  onHealthChange,
+  onFinish
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const customGestures = useStore((state) => state.customGestures);
+  const spells = useStore((state) => state.spells);
+  const talents = useStore((state) => state.talents);
+  const modifiers = useMemo(() => talentModifiers(talents), [talents]);
+  const viewport = useViewport();
+  // The engine owns the whole world; React feeds it commands and renders its snapshots.
+  // Mana carries over from the saved progression; the mode decides the rules.
+  const [engine] = useState(() =>
+    createGameEngine({
+      viewport,
+      spells,
+      customGestures,
+      mana: useStore.getState().mana,
+      talents: modifiers,
+      rules: getGameMode(mode).rules ?? DEFAULT_RULES
+    })
+  );
+  const [snapshot, setSnapshot] = useState<GameSnapshot>(() => engine.snapshot());
+  const [hurtAt, setHurtAt] = useState<number | null>(null);
+  const [discovery, setDiscovery] = useState<ComboRecipe | null>(null);
+  const [releaseFeedback, setReleaseFeedback] = useState<ReleaseFeedback | null>(null);
+  const { enemies, wave, shieldUp, charges, comboCount, hitCount, missCount, damageDealt, timeLeft, outcome } = snapshot;
 
-  // Reset scarecrow health when it dies
   useEffect(() => {
-    if (scarecrow.health <= 0) {
-      setTimeout(() => {
-        setScarecrow({
-          x: window.innerWidth * 0.75,
-          y: window.innerHeight / 2,
-          health: 500,
-          maxHealth: 500
-        });
-        onExperienceGain(50); // Reward for defeating scarecrow
-      }, 1500);
-    }
-  }, [scarecrow.health, onExperienceGain]);
+    engine.dispatch({ type: 'hands', hands });
+  }, [engine, hands]);
 
-  // Detect spell gesture and charge
   useEffect(() => {
-    if (!handData) {
-      setIsCharging(false);
-      setChargeProgress(0);
-      return;
-    }
-
-    const { gesture } = handData;
-    const lastGesture = lastGestureRef.current;
-
-    // Check if gesture changed from fist to spell gesture (charging → casting)
-    if (lastGesture === 'fist' && gesture !== 'fist' && gesture !== 'none') {
-      // Find matching spell
-      const spell = SPELLS.find(s => s.gesture === gesture);
-      if (spell && mana >= spell.manaCost) {
-        setCurrentSpell(spell);
-        setIsCharging(true);
-        chargeStartTime.current = Date.now();
-      }
-    }
-    
-    // Release spell when palm is shown after charging
-    if (isCharging && gesture === 'palm' && currentSpell) {
-      castSpell(currentSpell);
-      setIsCharging(false);
-      setChargeProgress(0);
-    }
+    engine.dispatch({ type: 'resize', viewport });
+  }, [engine, viewport]);
 
-    lastGestureRef.current = gesture;
-  }, [handData, isCharging, currentSpell, mana, castSpell]);
+  useEffect(() => {
+    engine.dispatch({ type: 'spellbook', spells, customGestures });
+  }, [engine, spells, customGestures]);
 
-  // Update charge progress
   useEffect(() => {
-    if (isCharging && currentSpell) {
-      const updateCharge = () => {
-        const elapsed = Date.now() - chargeStartTime.current;
-        const progress = Math.min(elapsed / currentSpell.chargeTime, 1);
-        setChargeProgress(progress);
-        
-        if (progress < 1) {
-          requestAnimationFrame(updateCharge);
+    engine.dispatch({ type: 'talents', modifiers });
+  }, [engine, modifiers]);
+
+  // Brief text over the charge rings explaining what a release did
+  const showReleaseFeedback = useCallback((text: string, color: string) => {
+    const id = Date.now();
+    setReleaseFeedback({ id, text, color });
+    setTimeout(() => setReleaseFeedback(current => (current?.id === id ? null : current)), 1200);
+  }, []);
+
+  // Announce a completed combo - loudly the first time it is ever discovered
+  const announceCombo = useCallback((combo: ComboRecipe) => {
+    const { discoveredCombos, discoverCombo } = useStore.getState();
+    if (discoveredCombos.includes(combo.id)) {
+      showReleaseFeedback(`${combo.icon} ${combo.name}!`, combo.effect.color);
+      return;
+    }
+
+    setDiscovery(combo);
+    setTimeout(() => setDiscovery(current => (current?.id === combo.id ? null : current)), COMBO_DISCOVERY_MS);
+    discoverCombo(combo.id).catch(err => console.error('Failed to save combo discovery:', err));
+  }, [showReleaseFeedback]);
+
+  // Sounds, feedback and rewards for what happened inside the engine; other features hear it on the event bus
+  const handleEvent = useCallback((event: GameEvent) => {
+    publishEngineEvent(event);
+
+    switch (event.type) {
+      case 'spellCast':
+        if (event.spell.sound) {
+          const audio = new Audio(event.spell.sound);
+          audio.volume = 0.7;
+          audio.play().catch(err => console.log('Failed to play sound:', err));
         }
-      };
-      updateCharge();
+        if (event.zone === 'overcharge') showReleaseFeedback('🔥 과충전 시전!', '#f97316');
+        else if (event.zone === 'weak') showReleaseFeedback('약한 시전', '#60a5fa');
+        break;
+      case 'comboUnleashed':
+        announceCombo(event.combo);
+        break;
+      case 'spellFailed':
+        if (event.reason === 'backfire') showReleaseFeedback('💥 역류! 마나 손실', '#ef4444');
+        else if (event.reason === 'insufficient-mana') showReleaseFeedback('💧 마나 부족', '#38bdf8');
+        else showReleaseFeedback('💨 불발', '#9ca3af');
+        break;
+      case 'spellLocked':
+        showReleaseFeedback(`🔒 ${event.spell.name} - Lv.${spellUnlockLevel(event.spell.id)} 특성으로 해금`, '#a78bfa');
+        break;
+      case 'experienceGained':
+        useStore.getState().gainExperience(event.amount);
+        break;
+      case 'playerHit':
+        setHurtAt(performance.now());
+        break;
     }
-  }, [isCharging, currentSpell]);
+  }, [announceCombo, showReleaseFeedback]);
 
-  // Update projectiles and check collisions
+  // One animation loop: advance the fixed-timestep engine by wall time, then draw and publish the result
   useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas && fitCanvasToViewport(canvas, viewport);
+    let previous = engine.snapshot();
+    let lastTime = performance.now();
     let animationId: number;
-    let isRunning = true;
-    
-    const updateProjectiles = () => {
-      if (!isRunning) return;
-      
-      setProjectiles(prev => {
-        if (prev.length === 0) return prev;
-        
-        const updated = prev.map(projectile => {
-          // Move towards target
-          const dx = projectile.targetX - projectile.x;
-          const dy = projectile.targetY - projectile.y;
-          const dist = Math.hypot(dx, dy);
-          
-          if (dist < 30) {
-            // Hit scarecrow
-            const damage = projectile.spell.damage * (1 + comboCountRef.current * 0.1);
-            setScarecrow(prev => ({
-              ...prev,
-              health: Math.max(0, prev.health - damage)
-            }));
-            
-            setHitCount(prev => prev + 1);
-            onExperienceGain(5); // Small XP for each hit
-            
-            return null; // Remove projectile
-          }
-
-          // Add particles
-          const newParticles: Particle[] = [];
-          for (let i = 0; i < 3; i++) {
-            newParticles.push({
-              x: projectile.x,
-              y: projectile.y,
-              vx: (Math.random() - 0.5) * 2,
-              vy: (Math.random() - 0.5) * 2,
-              life: 1,
-              color: projectile.spell.particleColor,
-              size: Math.random() * 4 + 2
-            });
-          }
-
-          return {
-            ...projectile,
-            x: projectile.x + (dx / dist) * projectile.speed,
-            y: projectile.y + (dy / dist) * projectile.speed,
-            particles: [...projectile.particles, ...newParticles]
-              .map(p => ({
-                ...p,
-                x: p.x + p.vx,
-                y: p.y + p.vy,
-                life: p.life - 0.02
-              }))
-              .filter(p => p.life > 0)
-          };
-        }).filter(Boolean) as SpellProjectile[];
-        
-        return updated;
-      });
-      
-      animationId = requestAnimationFrame(updateProjectiles);
-    };
 
-    updateProjectiles();
-
-    return () => {
-      isRunning = false;
-      if (animationId) {
-        cancelAnimationFrame(animationId);
+    const frame = (timestamp: number) => {
+      engine.advance(timestamp - lastTime);
+      lastTime = timestamp;
+      engine.drainEvents().forEach(handleEvent);
+
+      const next = engine.snapshot();
+      if (next.time !== previous.time) {
+        if (ctx) drawWorld(ctx, viewport, next);
+        if (next.mana !== previous.mana) gameplayEvents.emit('manaChanged', { mana: next.mana, previous: previous.mana });
+        if (next.health !== previous.health) onHealthChange(next.health);
+        setSnapshot(next);
+        previous = next;
       }
+      animationId = requestAnimationFrame(frame);
     };
-  }, [onExperienceGain]); // Only depend on stable callback
+    animationId = requestAnimationFrame(frame);
 
+    return () => cancelAnimationFrame(animationId);
+  }, [engine, viewport, handleEvent, onHealthChange]);
 
-  // Render canvas effects
+  // Once the run is over, let the banner play and then hand the scored result up
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
-
-    const render = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      // Render projectiles and particles
-      projectiles.forEach(projectile => {
-        // Draw projectile
-        ctx.save();
-        ctx.globalAlpha = 0.8;
-        ctx.fillStyle = projectile.spell.color;
-        ctx.beginPath();
-        ctx.arc(projectile.x, projectile.y, 15, 0, Math.PI * 2);
-        ctx.fill();
-        
-        // Glow effect
-        const gradient = ctx.createRadialGradient(
-          projectile.x, projectile.y, 0,
-          projectile.x, projectile.y, 30
-        );
-        gradient.addColorStop(0, projectile.spell.color + 'ff');
-        gradient.addColorStop(1, projectile.spell.color + '00');
-        ctx.fillStyle = gradient;
-        ctx.beginPath();
-        ctx.arc(projectile.x, projectile.y, 30, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.restore();
-
-        // Draw particles
-        projectile.particles.forEach(particle => {
-          ctx.save();
-          ctx.globalAlpha = particle.life;
-          ctx.fillStyle = particle.color;
-          ctx.beginPath();
-          ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2);
-          ctx.fill();
-          ctx.restore();
-        });
-      });
-
-      requestAnimationFrame(render);
-    };
-
-    render();
-  }, [projectiles]);
+    if (outcome === 'playing') return;
+    const timer = setTimeout(() => onFinish(resultFromSnapshot(mode, engine.snapshot())), RUN_END_BANNER_MS);
+    return () => clearTimeout(timer);
+  }, [engine, mode, outcome, onFinish]);
 
   return (
     <>
       <canvas
         ref={canvasRef}
-        className="fixed inset-0 pointer-events-none z-30"
+        className="fixed inset-0 w-full h-full pointer-events-none z-30"
         style={{ mixBlendMode: 'screen' }}
       />
 
-      {/* Scarecrow Target */}
+      {/* Aim Guides - where each charging hand would launch right now */}
+      <svg className="fixed inset-0 w-full h-full pointer-events-none z-30">
+        {hands.map(hand => {
+          const aim = charges[hand.id] && aimFromHand(hand.keypoints);
+          if (!aim) return null;
+          const tip = hand.keypoints[8];
+          return (
+            <line
+              key={hand.id}
+              x1={tip.x}
+              y1={tip.y}
+              x2={tip.x + aim.x * 160}
+              y2={tip.y + aim.y * 160}
+              stroke={charges[hand.id].spell.color}
+              strokeWidth={3}
+              strokeDasharray="8 8"
+              strokeLinecap="round"
+              opacity={0.7}
+            />
+          );
+        })}
+      </svg>
+
+      {/* Palm Shield - covers the player's side of the screen */}
+      <AnimatePresence>
+        {shieldUp && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-y-0 left-0 pointer-events-none z-20 border-r-4 border-cyan-300/80 bg-gradient-to-r from-cyan-400/5 to-cyan-300/30"
+            style={{ width: `${PLAYER_ZONE_X * 100}%` }}
+          >
+            <div className="absolute top-1/2 right-4 -translate-y-1/2 text-4xl">🛡️</div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Hurt Flash */}
+      <AnimatePresence>
+        {hurtAt !== null && (
+          <motion.div
+            key={hurtAt}
+            initial={{ opacity: 0.8 }}
+            animate={{ opacity: 0 }}
+            transition={{ duration: 0.6 }}
+            className="fixed inset-0 pointer-events-none z-20"
+            style={{ boxShadow: 'inset 0 0 120px 40px rgba(220, 38, 38, 0.8)' }}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Enemies */}
       <div className="fixed inset-0 pointer-events-none z-25">
-        <Scarecrow
-          x={scarecrow.x}
-          y={scarecrow.y}
-          health={scarecrow.health}
-          maxHealth={scarecrow.maxHealth}
-        />
+        {enemies.map(enemy => (
+          <EnemySprite key={enemy.id} enemy={enemy} />
+        ))}
+
+        {/* Wave Indicator */}
+        {wave.wave > 0 && (
+          <div className="fixed top-6 left-1/2 transform -translate-x-1/2 bg-black/60 backdrop-blur-lg rounded-lg px-4 py-2 border border-red-500/30 text-center">
+            <span className="text-red-400 font-bold">Wave {wave.wave}</span>
+            <span className="text-white/60 text-sm ml-2">
+              {wave.phase === 'break'
+                ? '다음 웨이브 준비 중...'
+                : `남은 적 ${enemies.filter(isAlive).length + wave.total - wave.spawned}`}
+            </span>
+          </div>
+        )}
         
+        {/* Guided first cast at the end of the tutorial */}
+        {mode === 'tutorial' && outcome === 'playing' && (
+          <CastGuide hands={hands} charges={Object.values(charges)} />
+        )}
+
+        {/* Mode Timer - counts down in timed modes, up otherwise */}
+        <div className="fixed top-20 left-1/2 transform -translate-x-1/2 bg-black/60 backdrop-blur-lg rounded-lg px-4 py-1 border border-white/20 text-center">
+          <span className={`font-bold ${timeLeft !== null && timeLeft < 10_000 ? 'text-red-400' : 'text-white'}`}>
+            ⏱️ {formatDuration(timeLeft ?? snapshot.time)}
+          </span>
+          {mode === 'timeAttack' && (
+            <span className="text-orange-300 text-sm ml-2">피해 {Math.round(damageDealt)}</span>
+          )}
+        </div>
+
         {/* Hit Counter */}
-        {hitCount > 0 && (
+        {hitCount + missCount > 0 && (
           <motion.div
             initial={{ scale: 0 }}
             animate={{ scale: 1 }}
@@ -380,43 +379,118 @@ export const MagicSpellSystem: React.FC<Props> = ({
           >
             <div className="text-white text-lg mb-2">Hits</div>
             <div className="text-4xl font-bold text-yellow-400">{hitCount}</div>
+            {missCount > 0 && (
+              <div className="text-white/60 text-sm mt-1">
+                Miss {missCount} · {Math.round((hitCount / (hitCount + missCount)) * 100)}%
+              </div>
+            )}
           </motion.div>
         )}
       </div>
 
-      {/* Spell Charging UI */}
-      <AnimatePresence>
-        {isCharging && currentSpell && (
-          <motion.div
-            initial={{ scale: 0, opacity: 0 }}
-            animate={{ scale: 1, opacity: 1 }}
-            exit={{ scale: 0, opacity: 0 }}
-            className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-40"
-          >
-            <div className="relative w-48 h-48">
-              <svg className="w-full h-full transform -rotate-90">
-                <circle
-                  cx="96"
-                  cy="96"
-                  r="88"
-                  stroke={currentSpell.color}
-                  strokeWidth="8"
-                  fill="none"
-                  strokeDasharray={`${chargeProgress * 553} 553`}
-                  className="transition-all duration-100"
-                />
-              </svg>
-              <div className="absolute inset-0 flex items-center justify-center">
-                <div className="text-center">
-                  <div className="text-6xl">{currentSpell.icon}</div>
-                  <div className="text-white font-bold mt-2">{currentSpell.name}</div>
-                  <div className="text-white/60 text-sm">Charging: {Math.round(chargeProgress * 100)}%</div>
-                </div>
+      {/* Spell Charging UI - one ring per charging hand, left hand on the left */}
+      <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-40 flex gap-8">
+        <AnimatePresence>
+          {Object.entries(charges)
+            .sort(([, a], [, b]) => (a.handedness === 'Left' ? -1 : 1) - (b.handedness === 'Left' ? -1 : 1))
+            .map(([id, charge]) => {
+              const progress = charge.level.ratio;
+              const zone = CHARGE_ZONES.find(z => z.zone === charge.level.zone) ?? CHARGE_ZONES[0];
+              return (
+                <motion.div
+                  key={id}
+                  initial={{ scale: 0, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  exit={{ scale: 0, opacity: 0 }}
+                >
+                  <div className="relative w-48 h-48">
+                    <svg className="w-full h-full transform -rotate-90">
+                      {/* Zone track - the full circle spans fizzle → end of overcharge */}
+                      {CHARGE_ZONES.map(z => (
+                        <circle
+                          key={z.zone}
+                          cx="96"
+                          cy="96"
+                          r="88"
+                          stroke={z.color}
+                          strokeOpacity={0.35}
+                          strokeWidth="8"
+                          fill="none"
+                          strokeDasharray={`${((z.end - z.start) / OVERCHARGE_END) * RING_CIRCUMFERENCE} ${RING_CIRCUMFERENCE}`}
+                          strokeDashoffset={-(z.start / OVERCHARGE_END) * RING_CIRCUMFERENCE}
+                        />
+                      ))}
+                      <circle
+                        cx="96"
+                        cy="96"
+                        r="88"
+                        stroke={zone.zone === 'overcharge' ? zone.color : charge.spell.color}
+                        strokeWidth="8"
+                        fill="none"
+                        strokeDasharray={`${(progress / OVERCHARGE_END) * RING_CIRCUMFERENCE} ${RING_CIRCUMFERENCE}`}
+                        className="transition-all duration-100"
+                      />
+                    </svg>
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <div className="text-center">
+                        <div className="text-6xl">{charge.spell.icon}</div>
+                        <div className="text-white font-bold mt-2">{charge.spell.name}</div>
+                        <div className="text-white/60 text-sm">Charging: {Math.round(progress * 100)}%</div>
+                        <div className="text-xs font-bold" style={{ color: zone.color }}>{zone.label}</div>
+                        {charge.spell.rune && (
+                          <div className={`text-xs ${charge.runeDrawn ? 'text-green-400' : 'text-yellow-300'}`}>
+                            {charge.runeDrawn ? `✓ ${charge.spell.rune} 룬` : `✍️ ${charge.spell.rune} 룬을 그리세요`}
+                          </div>
+                        )}
+                        <div className="text-white/40 text-xs">{charge.handedness === 'Left' ? '왼손' : '오른손'}</div>
+                      </div>
+                    </div>
+                  </div>
+                </motion.div>
+              );
+            })}
+        </AnimatePresence>
+      </div>
+
+      {/* Release Feedback - fizzle, weak cast, overcharge, backfire */}
+      <div className="fixed top-1/3 left-1/2 transform -translate-x-1/2 z-40 pointer-events-none">
+        <AnimatePresence>
+          {releaseFeedback && (
+            <motion.div
+              key={releaseFeedback.id}
+              initial={{ y: 0, opacity: 0, scale: 0.8 }}
+              animate={{ y: -20, opacity: 1, scale: 1 }}
+              exit={{ y: -40, opacity: 0 }}
+              className="text-3xl font-bold whitespace-nowrap"
+              style={{ color: releaseFeedback.color }}
+            >
+              {releaseFeedback.text}
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {/* Combo Discovery - shown the first time a recipe is completed */}
+      <div className="fixed top-24 left-1/2 transform -translate-x-1/2 z-40 pointer-events-none">
+        <AnimatePresence>
+          {discovery && (
+            <motion.div
+              key={discovery.id}
+              initial={{ y: -20, opacity: 0, scale: 0.9 }}
+              animate={{ y: 0, opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              className="bg-black/60 backdrop-blur-lg rounded-2xl px-6 py-4 border text-center text-white"
+              style={{ borderColor: discovery.effect.color }}
+            >
+              <div className="text-sm text-yellow-300 font-bold mb-1">✨ 새로운 조합 발견!</div>
+              <div className="text-2xl font-bold" style={{ color: discovery.effect.color }}>
+                {discovery.icon} {discovery.name}
               </div>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
+              <div className="text-white/70 text-sm mt-1">{discovery.description}</div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
 
       {/* Combo Counter */}
       {comboCount > 0 && (
@@ -428,6 +502,34 @@ export const MagicSpellSystem: React.FC<Props> = ({
           x{comboCount}
         </motion.div>
       )}
+
+      {/* End the run early - scored like any other finish */}
+      {outcome === 'playing' && (
+        <button
+          onClick={() => onFinish(resultFromSnapshot(mode, engine.snapshot()))}
+          className="fixed bottom-6 right-6 px-4 py-2 rounded-xl bg-black/60 backdrop-blur-lg border border-white/20 text-white text-sm font-bold pointer-events-auto hover:scale-105 transition-all"
+        >
+          🏁 종료
+        </button>
+      )}
+
+      {/* Run End Banner */}
+      {outcome !== 'playing' && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="fixed inset-0 flex items-center justify-center bg-black/70 pointer-events-none z-50"
+        >
+          <div className="text-center">
+            <h2 className={`text-6xl font-bold mb-4 ${RUN_END_BANNERS[outcome].color}`}>
+              {RUN_END_BANNERS[outcome].title}
+            </h2>
+            {outcome !== 'cleared' && (
+              <p className="text-white/80 text-xl">Wave {Math.max(wave.wave, 1)}까지 진행했습니다</p>
+            )}
+          </div>
+        </motion.div>
+      )}
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,35 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { GAME_MODES, type GameModeId } from '../game/modes';
+
+interface Props {
+  onSelect: (mode: GameModeId) => void;
+  onTutorial: () => void;
+}
+
+export const ModeSelect: React.FC<Props> = ({ onSelect, onTutorial }) => (
+  <motion.div
+    initial={{ opacity: 0, scale: 0.95 }}
+    animate={{ opacity: 1, scale: 1 }}
+    className="w-[40rem] bg-black/80 backdrop-blur-lg rounded-2xl p-6 border border-purple-500/40 text-white"
+  >
+    <h3 className="text-2xl font-bold text-purple-300 mb-4 text-center">🎮 모드 선택</h3>
+    <div className="grid grid-cols-2 gap-3">
+      {GAME_MODES.map(mode => (
+        <button
+          key={mode.id}
+          onClick={() => onSelect(mode.id)}
+          className="text-left rounded-xl px-4 py-3 bg-white/5 border border-white/10 hover:bg-purple-500/20 hover:border-purple-500/50 transition-all"
+        >
+          <div className="font-bold text-lg">
+            {mode.icon} {mode.name}
+          </div>
+          <div className="text-white/60 text-sm mt-1">{mode.description}</div>
+        </button>
+      ))}
+    </div>
+    <button onClick={onTutorial} className="block mx-auto mt-4 text-white/60 hover:text-white text-sm">
+      🎓 튜토리얼 다시 보기
+    </button>
+  </motion.div>
+);
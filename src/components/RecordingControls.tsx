@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { parseRecording, type HandRecording } from '../lib/handRecording';
+
+interface Props {
+  canRecord: boolean;
+  isRecording: boolean;
+  isReplaying: boolean;
+  onStartRecording: () => void;
+  onStopRecording: () => void;
+  onReplay: (recording: HandRecording) => void;
+  onStopReplay: () => void;
+}
+
+export const RecordingControls: React.FC<Props> = ({
+  canRecord,
+  isRecording,
+  isReplaying,
+  onStartRecording,
+  onStopRecording,
+  onReplay,
+  onStopReplay
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError(null);
+      onReplay(parseRecording(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '녹화 파일을 읽을 수 없습니다.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="flex flex-col gap-2 text-sm"
+    >
+      <div className="flex gap-2">
+        {isRecording ? (
+          <button
+            onClick={onStopRecording}
+            className="px-3 py-2 rounded-lg bg-red-600 text-white font-bold animate-pulse"
+          >
+            ⏹ 녹화 저장
+          </button>
+        ) : (
+          <button
+            onClick={onStartRecording}
+            disabled={!canRecord || isReplaying}
+            className="px-3 py-2 rounded-lg bg-black/50 text-white border border-red-500/40 disabled:opacity-40"
+          >
+            ⏺ 녹화
+          </button>
+        )}
+
+        {isReplaying ? (
+          <button
+            onClick={onStopReplay}
+            className="px-3 py-2 rounded-lg bg-cyan-600 text-white font-bold"
+          >
+            ⏹ 재생 중지
+          </button>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRecording}
+            className="px-3 py-2 rounded-lg bg-black/50 text-white border border-cyan-500/40 disabled:opacity-40"
+          >
+            ▶ 녹화 재생
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {error && <p className="text-red-300 text-xs max-w-xs">{error}</p>}
+    </motion.div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { SAVE_SLOTS, downloadSave, readSlot, type SaveData } from '../lib/saves';
+import { useStore } from '../store/useStore';
+
+interface Props {
+  onSlotLoaded: () => void;
+  onClose: () => void;
+}
+
+export const SaveSlots: React.FC<Props> = ({ onSlotLoaded, onClose }) => {
+  const { activeSlot, level, loadSlot, importSave } = useStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importTarget, setImportTarget] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Slot summaries are read on each render; `level` keeps the active one fresh while playing
+  const readSummary = (slot: number): SaveData | null => {
+    try {
+      return readSlot(slot);
+    } catch {
+      return null;
+    }
+  };
+
+  const handleLoad = (slot: number) => {
+    setError(null);
+    loadSlot(slot);
+    onSlotLoaded();
+  };
+
+  const handleExport = (slot: number) => {
+    const save = readSummary(slot);
+    if (save) downloadSave(slot, save);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || importTarget === null) return;
+    try {
+      setError(null);
+      importSave(importTarget, await file.text());
+      if (importTarget === activeSlot) onSlotLoaded();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '세이브 파일을 읽을 수 없습니다.');
+    } finally {
+      setImportTarget(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="w-[26rem] bg-black/80 backdrop-blur-lg rounded-2xl p-6 border border-yellow-500/40 text-white"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-yellow-300">💾 저장 슬롯</h3>
+        <button onClick={onClose} className="text-white/60 hover:text-white">✕</button>
+      </div>
+
+      <div className="space-y-2">
+        {SAVE_SLOTS.map(slot => {
+          const save = readSummary(slot);
+          const isActive = slot === activeSlot;
+          return (
+            <div
+              key={slot}
+              className={`flex items-center gap-2 rounded-lg px-3 py-2 ${isActive ? 'bg-yellow-500/20 border border-yellow-500/40' : 'bg-white/5'}`}
+            >
+              <div className="flex-1">
+                <div className="font-bold text-sm">
+                  슬롯 {slot} {isActive && <span className="text-yellow-300 text-xs">· 사용 중</span>}
+                </div>
+                <div className="text-white/50 text-xs">
+                  {save
+                    ? `Lv.${isActive ? level : save.level} · ${new Date(save.savedAt).toLocaleString()}`
+                    : '비어 있음'}
+                </div>
+              </div>
+              {!isActive && (
+                <button
+                  onClick={() => handleLoad(slot)}
+                  className="text-xs px-2 py-1 rounded bg-yellow-600/60"
+                >
+                  {save ? '불러오기' : '새 게임'}
+                </button>
+              )}
+              <button
+                onClick={() => handleExport(slot)}
+                disabled={!save}
+                className="text-xs px-2 py-1 rounded bg-purple-600/60 disabled:opacity-40"
+              >
+                내보내기
+              </button>
+              <button
+                onClick={() => {
+                  setImportTarget(slot);
+                  fileInputRef.current?.click();
+                }}
+                className="text-xs px-2 py-1 rounded bg-cyan-600/60"
+              >
+                가져오기
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {error && <p className="text-red-300 text-xs mt-3 whitespace-pre-line">{error}</p>}
+    </motion.div>
+  );
+};
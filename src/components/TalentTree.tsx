@@ -0,0 +1,85 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import {
+  TALENT_BRANCHES,
+  TALENT_TREE,
+  spentTalentPoints,
+  talentBlocker,
+  talentPoints
+} from '../game/talents';
+import { useStore } from '../store/useStore';
+
+interface Props {
+  onClose: () => void;
+}
+
+export const TalentTree: React.FC<Props> = ({ onClose }) => {
+  const { level, talents, learnTalent, resetTalents } = useStore();
+  const remaining = talentPoints(level) - spentTalentPoints(talents);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      className="w-[44rem] max-h-[80vh] overflow-y-auto bg-black/80 backdrop-blur-lg rounded-2xl p-6 border border-green-500/40 text-white"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-green-300">🌳 특성</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-sm">
+            남은 포인트 <span className="font-bold text-yellow-400">{remaining}</span>
+          </span>
+          <button
+            onClick={resetTalents}
+            disabled={spentTalentPoints(talents) === 0}
+            className="text-xs px-2 py-1 rounded bg-red-600/60 disabled:opacity-40"
+          >
+            초기화
+          </button>
+          <button onClick={onClose} className="text-white/60 hover:text-white">✕</button>
+        </div>
+      </div>
+
+      <p className="text-white/50 text-xs mb-4">레벨이 오를 때마다 특성 포인트를 1 얻습니다.</p>
+
+      {/* One column per branch, top to bottom in unlock order */}
+      <div className="grid grid-cols-3 gap-4">
+        {TALENT_BRANCHES.map(branch => (
+          <div key={branch.id} className="space-y-2">
+            <div className="text-sm font-bold text-green-200 text-center">{branch.name}</div>
+            {TALENT_TREE.filter(node => node.branch === branch.id).map(node => {
+              const rank = talents[node.id] ?? 0;
+              const blocker = talentBlocker(node, level, talents);
+              return (
+                <div
+                  key={node.id}
+                  className={`rounded-lg px-3 py-2 border ${rank > 0 ? 'bg-green-500/15 border-green-500/50' : 'bg-white/5 border-white/10'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="font-bold text-sm">
+                      {node.icon} {node.name}
+                    </div>
+                    <div className="text-xs text-white/60">
+                      {rank}/{node.maxRank}
+                    </div>
+                  </div>
+                  <div className="text-white/60 text-xs mt-1">{node.description}</div>
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-[10px] text-white/40">{blocker ?? ''}</span>
+                    <button
+                      onClick={() => learnTalent(node.id)}
+                      disabled={!!blocker}
+                      className="text-xs px-2 py-0.5 rounded bg-green-600/70 disabled:opacity-30"
+                    >
+                      +1
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
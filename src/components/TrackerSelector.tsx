@@ -0,0 +1,43 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { TRACKER_BACKENDS, type TrackerBackend } from '../lib/trackers';
+
+interface Props {
+  backend: TrackerBackend;
+  onBackendChange: (backend: TrackerBackend) => void;
+  isLoading?: boolean;
+}
+
+export const TrackerSelector: React.FC<Props> = ({
+  backend,
+  onBackendChange,
+  isLoading = false
+}) => {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gradient-to-r from-purple-900/50 to-pink-900/50 rounded-xl p-4"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-purple-400 font-bold text-sm">Tracking Model</span>
+        {isLoading && (
+          <span className="text-white/60 text-xs">Loading...</span>
+        )}
+      </div>
+
+      <select
+        value={backend}
+        onChange={(e) => onBackendChange(e.target.value as TrackerBackend)}
+        disabled={isLoading}
+        className="w-full bg-black/50 text-white border border-purple-500/30 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-purple-500 disabled:opacity-50"
+      >
+        {TRACKER_BACKENDS.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </motion.div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { HandData } from '../types/hand';
+import type { FingerName, FingerStates } from '../lib/gestureClassifier';
+import {
+  FINGER_NAMES,
+  GESTURE_FINGERS,
+  TUTORIAL_HOLD_MS,
+  TUTORIAL_STEPS,
+  handFingerStates,
+  tutorialProblem
+} from '../game/tutorial';
+
+interface Props {
+  hands: HandData[];
+  onComplete: () => void;
+  onSkip: () => void;
+}
+
+const FINGER_ORDER: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+// Five bars, tall for an extended finger and short for a folded one; dimmed where it doesn't matter
+const FingerDiagram: React.FC<{ label: string; fingers: Partial<FingerStates> }> = ({ label, fingers }) => (
+  <div className="text-center">
+    <div className="flex items-end justify-center gap-1 h-14">
+      {FINGER_ORDER.map(finger => (
+        <div
+          key={finger}
+          title={FINGER_NAMES[finger]}
+          className={`w-3 rounded-t-full transition-all ${
+            fingers[finger] === undefined ? 'h-6 bg-white/15' : fingers[finger] ? 'h-14 bg-lime-400' : 'h-5 bg-orange-400'
+          }`}
+        />
+      ))}
+    </div>
+    <div className="text-white/50 text-xs mt-1">{label}</div>
+  </div>
+);
+
+export const Tutorial: React.FC<Props> = ({ hands, onComplete, onSkip }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [matchedSince, setMatchedSince] = useState<number | null>(null);
+  const step = TUTORIAL_STEPS[stepIndex];
+  const problem = tutorialProblem(step, hands);
+  const target = step.gesture ? GESTURE_FINGERS[step.gesture] : null;
+
+  // Advance once the step has been satisfied for the whole hold time
+  useEffect(() => {
+    if (problem !== null) {
+      setMatchedSince(null);
+    } else if (matchedSince === null) {
+      setMatchedSince(performance.now());
+    } else if (performance.now() - matchedSince >= TUTORIAL_HOLD_MS) {
+      setMatchedSince(null);
+      if (stepIndex + 1 < TUTORIAL_STEPS.length) setStepIndex(stepIndex + 1);
+      else onComplete();
+    }
+  }, [hands, problem, matchedSince, stepIndex, onComplete]);
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-30 pointer-events-none">
+      <motion.div
+        key={step.id}
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-[28rem] bg-black/80 backdrop-blur-lg rounded-2xl p-6 border border-purple-500/40 text-white text-center pointer-events-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-white/50 text-xs">
+            🎓 튜토리얼 {stepIndex + 1}/{TUTORIAL_STEPS.length + 1}
+          </span>
+          <button onClick={onSkip} className="text-white/60 hover:text-white text-xs">
+            건너뛰기 ✕
+          </button>
+        </div>
+
+        <div className="text-8xl mb-3">{step.illustration}</div>
+        <h3 className="text-2xl font-bold text-purple-300 mb-2">{step.title}</h3>
+        <p className="text-white/80 mb-4">{step.instruction}</p>
+
+        {/* Target pose next to what the tracker sees right now */}
+        {target && (
+          <div className="flex justify-center gap-8 mb-4">
+            <FingerDiagram label="목표" fingers={target} />
+            <FingerDiagram label="내 손" fingers={hands[0] ? handFingerStates(hands[0]) : {}} />
+          </div>
+        )}
+
+        {problem === null ? (
+          <div>
+            <div className="text-green-400 text-sm font-bold mb-2">좋아요! 그대로 유지하세요</div>
+            <div className="w-48 h-2 mx-auto rounded-full bg-white/20 overflow-hidden">
+              <motion.div
+                key={matchedSince ?? 'idle'}
+                initial={{ width: '0%' }}
+                animate={{ width: '100%' }}
+                transition={{ duration: TUTORIAL_HOLD_MS / 1000, ease: 'linear' }}
+                className="h-full bg-green-400"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="text-yellow-300 text-sm">⚠️ {problem}</div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { EnemyFrame, type EnemyRendererProps } from './EnemyFrame';
+
+// Will-o'-the-wisp - small, fast-drifting flyer that is weak to lightning
+export const Wisp: React.FC<EnemyRendererProps> = (props) => {
+  return (
+    <EnemyFrame {...props} width={60} height={60}>
+      <motion.svg
+        width="60"
+        height="60"
+        viewBox="0 0 60 60"
+        animate={{ scale: [1, 1.12, 1] }}
+        transition={{ repeat: Infinity, duration: 1.2 }}
+      >
+        <defs>
+          <radialGradient id="wisp-glow">
+            <stop offset="0%" stopColor="#ecfeff" />
+            <stop offset="45%" stopColor="#67e8f9" />
+            <stop offset="100%" stopColor="#0891b2" stopOpacity="0" />
+          </radialGradient>
+        </defs>
+
+        {/* Glow */}
+        <circle cx="30" cy="30" r="28" fill="url(#wisp-glow)" />
+
+        {/* Flame tip */}
+        <path d="M 30 8 Q 38 20 30 26 Q 22 20 30 8 Z" fill="#a5f3fc" />
+
+        {/* Core */}
+        <circle cx="30" cy="32" r="10" fill="#ecfeff" />
+        <circle cx="26" cy="31" r="2" fill="#0e7490" />
+        <circle cx="34" cy="31" r="2" fill="#0e7490" />
+      </motion.svg>
+    </EnemyFrame>
+  );
+};
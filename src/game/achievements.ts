@@ -0,0 +1,147 @@
+import { STORES, getAll, put } from '../lib/db';
+import type { GameplayEvent } from './gameplayEvents';
+import type { EnemyTypeId } from './enemies';
+import { SPELL_ELEMENTS, type SpellElement } from './spells';
+
+// Lifetime counters the achievements are checked against
+export interface AchievementProgress {
+  casts: number;
+  hitStreak: number; // Projectile hits since the last miss
+  bestHitStreak: number;
+  defeats: Partial<Record<EnemyTypeId, number>>;
+  elementsCast: SpellElement[];
+  overchargeHits: number;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  goal: number;
+  progress: (progress: AchievementProgress) => number;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-cast',
+    name: '첫 마법',
+    icon: '✨',
+    description: '마법을 처음으로 시전하세요.',
+    goal: 1,
+    progress: p => p.casts
+  },
+  {
+    id: 'ten-hit-combo',
+    name: '10연속 명중',
+    icon: '🎯',
+    description: '한 번도 빗나가지 않고 마법을 10번 연속으로 명중시키세요.',
+    goal: 10,
+    progress: p => p.bestHitStreak
+  },
+  {
+    id: 'scarecrow-slayer',
+    name: '허수아비 사냥꾼',
+    icon: '🎃',
+    description: '허수아비를 10개 쓰러뜨리세요.',
+    goal: 10,
+    progress: p => p.defeats.dummy ?? 0
+  },
+  {
+    id: 'elementalist',
+    name: '원소술사',
+    icon: '🌈',
+    description: '모든 속성의 마법을 한 번씩 시전하세요.',
+    goal: SPELL_ELEMENTS.length,
+    progress: p => p.elementsCast.length
+  },
+  {
+    id: 'perfect-overcharge',
+    name: '완벽한 과충전',
+    icon: '🔥',
+    description: '과충전한 마법을 역류 없이 적에게 맞히세요.',
+    goal: 1,
+    progress: p => p.overchargeHits
+  }
+];
+
+export const NEW_ACHIEVEMENT_PROGRESS: AchievementProgress = {
+  casts: 0,
+  hitStreak: 0,
+  bestHitStreak: 0,
+  defeats: {},
+  elementsCast: [],
+  overchargeHits: 0
+};
+
+// The only events trackProgress counts - everything else can be ignored before it is queued
+export const ACHIEVEMENT_EVENTS: Array<GameplayEvent['type']> = [
+  'spellCast',
+  'projectileHit',
+  'projectileMissed',
+  'targetDefeated'
+];
+
+// Fold one gameplay event into the counters. Events that don't matter return the same object.
+export const trackProgress = (progress: AchievementProgress, event: GameplayEvent): AchievementProgress => {
+  switch (event.type) {
+    case 'spellCast': {
+      const { element } = event.payload.spell;
+      return {
+        ...progress,
+        casts: progress.casts + 1,
+        elementsCast: progress.elementsCast.includes(element) ? progress.elementsCast : [...progress.elementsCast, element]
+      };
+    }
+    case 'projectileHit': {
+      const hitStreak = progress.hitStreak + 1;
+      return {
+        ...progress,
+        hitStreak,
+        bestHitStreak: Math.max(progress.bestHitStreak, hitStreak),
+        overchargeHits: progress.overchargeHits + (event.payload.zone === 'overcharge' ? 1 : 0)
+      };
+    }
+    case 'projectileMissed':
+      return progress.hitStreak === 0 ? progress : { ...progress, hitStreak: 0 };
+    case 'targetDefeated': {
+      const { enemy } = event.payload;
+      return {
+        ...progress,
+        defeats: { ...progress.defeats, [enemy]: (progress.defeats[enemy] ?? 0) + 1 }
+      };
+    }
+    default:
+      return progress;
+  }
+};
+
+// Achievements the counters now satisfy that weren't unlocked before
+export const newlyUnlocked = (progress: AchievementProgress, unlocked: Record<string, number>) =>
+  ACHIEVEMENTS.filter(achievement => !unlocked[achievement.id] && achievement.progress(progress) >= achievement.goal);
+
+interface AchievementUnlock {
+  id: string;
+  unlockedAt: number;
+}
+
+// Counters live in a single record next to the unlocks
+const PROGRESS_RECORD_ID = 'lifetime';
+
+export const loadAchievements = async () => {
+  const [unlocks, progressRecords] = await Promise.all([
+    getAll<AchievementUnlock>(STORES.achievements),
+    getAll<AchievementProgress & { id: string }>(STORES.achievementProgress)
+  ]);
+  const record = progressRecords.find(candidate => candidate.id === PROGRESS_RECORD_ID);
+  return {
+    unlocked: Object.fromEntries(unlocks.map(unlock => [unlock.id, unlock.unlockedAt])) as Record<string, number>,
+    progress: record ? { ...NEW_ACHIEVEMENT_PROGRESS, ...record } : NEW_ACHIEVEMENT_PROGRESS
+  };
+};
+
+export const saveAchievementProgress = (progress: AchievementProgress) =>
+  put(STORES.achievementProgress, { id: PROGRESS_RECORD_ID, ...progress });
+
+export const saveAchievementUnlock = (id: string, unlockedAt: number) =>
+  put<AchievementUnlock>(STORES.achievements, { id, unlockedAt });
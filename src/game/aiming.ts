@@ -0,0 +1,80 @@
+import type { HandKeypoint } from '../types/hand';
+import { envNumber } from '../lib/env';
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+export type ProjectilePath = 'straight' | 'ballistic';
+
+export const PROJECTILE_PATHS: ProjectilePath[] = ['straight', 'ballistic'];
+
+// Downward acceleration for ballistic projectiles, px/tick²
+export const BALLISTIC_GRAVITY = 0.25;
+
+export interface AimAssistConfig {
+  strength: number; // 0 = off, 1 = strongest steering
+  coneDegrees: number; // Only targets within this angle of the flight direction are assisted
+  maxTurnDegrees: number; // Steering per tick at full strength
+}
+
+// Tunable per deployment through VITE_* variables (see .env.example)
+export const DEFAULT_AIM_ASSIST: AimAssistConfig = {
+  strength: Math.min(Math.max(envNumber(import.meta.env.VITE_AIM_ASSIST, 0.25), 0), 1),
+  coneDegrees: 25,
+  maxTurnDegrees: 3
+};
+
+// Target hitbox, centred on (x, y)
+export interface Hitbox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Unit vector from the wrist through the index tip, or null when the hand is too foreshortened to aim
+export const aimFromHand = (keypoints: HandKeypoint[]): Vec2 | null => {
+  const dx = keypoints[8].x - keypoints[0].x;
+  const dy = keypoints[8].y - keypoints[0].y;
+  const length = Math.hypot(dx, dy);
+  return length < 10 ? null : { x: dx / length, y: dy / length };
+};
+
+// Turn the velocity a little towards the target if it is already roughly on course
+export const steerTowards = (velocity: Vec2, from: Vec2, to: Vec2, config: AimAssistConfig = DEFAULT_AIM_ASSIST): Vec2 => {
+  if (config.strength <= 0) return velocity;
+
+  const heading = Math.atan2(velocity.y, velocity.x);
+  let offset = Math.atan2(to.y - from.y, to.x - from.x) - heading;
+  offset = Math.atan2(Math.sin(offset), Math.cos(offset)); // Wrap to [-π, π]
+  if (Math.abs(offset) > (config.coneDegrees * Math.PI) / 180) return velocity;
+
+  const maxTurn = (config.maxTurnDegrees * Math.PI * config.strength) / 180;
+  const turn = Math.max(-maxTurn, Math.min(maxTurn, offset));
+  const speed = Math.hypot(velocity.x, velocity.y);
+  return { x: Math.cos(heading + turn) * speed, y: Math.sin(heading + turn) * speed };
+};
+
+const headingOffset = (velocity: Vec2, from: Vec2, to: Vec2) => {
+  const offset = Math.atan2(to.y - from.y, to.x - from.x) - Math.atan2(velocity.y, velocity.x);
+  return Math.abs(Math.atan2(Math.sin(offset), Math.cos(offset)));
+};
+
+// With several targets on screen, assist towards the one most in line with the flight direction
+export const pickAssistTarget = <T extends Vec2>(velocity: Vec2, from: Vec2, targets: T[]): T | null =>
+  targets.reduce<T | null>(
+    (best, target) =>
+      !best || headingOffset(velocity, from, target) < headingOffset(velocity, from, best) ? target : best,
+    null
+  );
+
+export const circleHitsBox = (center: Vec2, radius: number, box: Hitbox) => {
+  const nearestX = Math.max(box.x - box.width / 2, Math.min(center.x, box.x + box.width / 2));
+  const nearestY = Math.max(box.y - box.height / 2, Math.min(center.y, box.y + box.height / 2));
+  return Math.hypot(center.x - nearestX, center.y - nearestY) <= radius;
+};
+
+export const isOffscreen = (point: Vec2, viewport: { width: number; height: number }, margin = 100) =>
+  point.x < -margin || point.x > viewport.width + margin || point.y < -margin || point.y > viewport.height + margin;
@@ -0,0 +1,55 @@
+export type ChargeZone = 'fizzle' | 'weak' | 'full' | 'overcharge';
+
+// Zone boundaries as a fraction of the spell's chargeTime. Holding to OVERCHARGE_END backfires.
+export const CHARGE_ZONES: Array<{ zone: ChargeZone; start: number; end: number; label: string; color: string }> = [
+  { zone: 'fizzle', start: 0, end: 0.25, label: '불발', color: '#9ca3af' },
+  { zone: 'weak', start: 0.25, end: 1, label: '약한 시전', color: '#60a5fa' },
+  { zone: 'full', start: 1, end: 1.25, label: '완전 충전', color: '#4ade80' },
+  { zone: 'overcharge', start: 1.25, end: 2, label: '과충전', color: '#f97316' }
+];
+
+export const OVERCHARGE_END = CHARGE_ZONES[CHARGE_ZONES.length - 1].end;
+
+const WEAK_MIN_POWER = 0.4;
+const OVERCHARGE_POWER = 1.5;
+// Extra mana lost on a backfire, as a fraction of the spell's cost
+export const BACKFIRE_MANA_PENALTY = 0.5;
+
+export interface ChargeLevel {
+  ratio: number; // Elapsed / chargeTime, capped at OVERCHARGE_END
+  zone: ChargeZone;
+  power: number; // Damage multiplier
+  backfireChance: number; // 0 → 1 across the overcharge window
+}
+
+export const getChargeLevel = (elapsedMs: number, chargeTime: number): ChargeLevel => {
+  const ratio = Math.min(Math.max(elapsedMs / chargeTime, 0), OVERCHARGE_END);
+  const { zone, start, end } = CHARGE_ZONES.find(z => ratio < z.end) ?? CHARGE_ZONES[CHARGE_ZONES.length - 1];
+  const t = (ratio - start) / (end - start); // Progress through the current zone
+
+  switch (zone) {
+    case 'fizzle':
+      return { ratio, zone, power: 0, backfireChance: 0 };
+    case 'weak':
+      return { ratio, zone, power: WEAK_MIN_POWER + (1 - WEAK_MIN_POWER) * t, backfireChance: 0 };
+    case 'full':
+      return { ratio, zone, power: 1, backfireChance: 0 };
+    case 'overcharge':
+      return { ratio, zone, power: OVERCHARGE_POWER, backfireChance: Math.min(t, 1) };
+  }
+};
+
+export type ReleaseOutcome = 'fizzle' | 'cast' | 'backfire';
+
+// Decide what a release does. `random` is injectable so outcomes can be replayed deterministically.
+export const resolveRelease = (level: ChargeLevel, random: () => number = Math.random): ReleaseOutcome => {
+  if (level.zone === 'fizzle') return 'fizzle';
+  if (level.ratio >= OVERCHARGE_END || random() < level.backfireChance) return 'backfire';
+  return 'cast';
+};
+
+// Bigger, faster projectiles for stronger casts
+export const projectileScale = (power: number) => ({
+  size: 0.5 + 0.5 * power,
+  speed: 0.75 + 0.25 * power
+});
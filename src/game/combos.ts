@@ -0,0 +1,194 @@
+import { SPELL_ELEMENTS, type SpellElement } from './spells';
+import {
+  checkFields,
+  hexColor,
+  isObject,
+  nonEmptyString,
+  nonNegativeInteger,
+  oneOf,
+  positiveNumber,
+  type FieldRule,
+  type Schema
+} from './schema';
+import type { Vec2 } from './aiming';
+import { STORES, getAll, put } from '../lib/db';
+import combosJson from '../data/combos.json';
+
+// Lingering area that hits every enemy inside it on a timer
+export interface CloudEffect {
+  type: 'cloud';
+  element: SpellElement;
+  color: string;
+  radius: number;
+  durationMs: number;
+  tickDamage: number;
+  tickIntervalMs: number;
+}
+
+// Jumps from the struck enemy to the nearest others in range
+export interface ChainEffect {
+  type: 'chain';
+  element: SpellElement;
+  color: string;
+  jumps: number;
+  range: number;
+  damage: number;
+}
+
+export type ComboEffect = CloudEffect | ChainEffect;
+
+export interface ComboRecipe {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  sequence: SpellElement[]; // Cast order, oldest first
+  windowMs: number; // First to last cast of the sequence
+  effect: ComboEffect;
+}
+
+const CLOUD_SCHEMA: Schema<CloudEffect> = {
+  type: oneOf(['cloud']),
+  element: oneOf(SPELL_ELEMENTS),
+  color: hexColor,
+  radius: positiveNumber,
+  durationMs: positiveNumber,
+  tickDamage: positiveNumber,
+  tickIntervalMs: positiveNumber
+};
+
+const CHAIN_SCHEMA: Schema<ChainEffect> = {
+  type: oneOf(['chain']),
+  element: oneOf(SPELL_ELEMENTS),
+  color: hexColor,
+  jumps: nonNegativeInteger,
+  range: positiveNumber,
+  damage: positiveNumber
+};
+
+const EFFECT_SCHEMAS: Record<ComboEffect['type'], Record<string, FieldRule>> = {
+  cloud: CLOUD_SCHEMA,
+  chain: CHAIN_SCHEMA
+};
+
+const sequenceRule: FieldRule = value =>
+  Array.isArray(value) && value.length >= 2 && value.every(element => SPELL_ELEMENTS.includes(element))
+    ? null
+    : `${SPELL_ELEMENTS.join(' | ')} 원소 2개 이상의 배열이어야 합니다`;
+
+const RECIPE_SCHEMA: Schema<Omit<ComboRecipe, 'effect'>> & { effect: FieldRule } = {
+  id: nonEmptyString,
+  name: nonEmptyString,
+  icon: nonEmptyString,
+  description: nonEmptyString,
+  sequence: sequenceRule,
+  windowMs: positiveNumber,
+  effect: value => (isObject(value) ? null : '객체여야 합니다')
+};
+
+// Validate combo recipes the same way as the spellbook, listing every problem at once
+export const parseComboRecipes = (data: unknown): ComboRecipe[] => {
+  if (!isObject(data) || !Array.isArray(data.combos)) {
+    throw new Error('조합 데이터에 "combos" 배열이 없습니다.');
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const sequences = new Set<string>();
+
+  data.combos.forEach((recipe: unknown, index) => {
+    if (!isObject(recipe)) {
+      errors.push(`combos[${index}]: 객체여야 합니다`);
+      return;
+    }
+    const label = typeof recipe.id === 'string' ? `combos[${index}] (${recipe.id})` : `combos[${index}]`;
+    errors.push(...checkFields(recipe, RECIPE_SCHEMA, label));
+
+    const effect = recipe.effect;
+    if (isObject(effect)) {
+      const schema = EFFECT_SCHEMAS[effect.type as ComboEffect['type']];
+      if (schema) {
+        errors.push(...checkFields(effect, schema, `${label}.effect`));
+      } else {
+        errors.push(`${label}.effect.type: ${Object.keys(EFFECT_SCHEMAS).join(' | ')} 중 하나여야 합니다`);
+      }
+    }
+
+    if (typeof recipe.id === 'string') {
+      if (ids.has(recipe.id)) errors.push(`${label}.id: 중복된 id입니다`);
+      ids.add(recipe.id);
+    }
+    if (Array.isArray(recipe.sequence)) {
+      const key = recipe.sequence.join('>');
+      if (sequences.has(key)) errors.push(`${label}.sequence: 같은 순서의 조합이 이미 있습니다`);
+      sequences.add(key);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`조합 데이터 형식이 잘못되었습니다:\n${errors.join('\n')}`);
+  }
+  return data.combos as ComboRecipe[];
+};
+
+export const COMBO_RECIPES = parseComboRecipes(combosJson);
+
+// Remembers recent casts and reports when the latest one completes a recipe. Longer recipes win.
+// The casts stay in the history until the combo lands - the caller resets the tracker on impact.
+export const createComboTracker = (recipes: ComboRecipe[] = COMBO_RECIPES) => {
+  let history: Array<{ element: SpellElement; time: number }> = [];
+  const byLength = [...recipes].sort((a, b) => b.sequence.length - a.sequence.length);
+  // Casts older than the longest recipe window can never complete a combo
+  const historyMs = Math.max(0, ...recipes.map(recipe => recipe.windowMs));
+
+  const record = (element: SpellElement, time: number): ComboRecipe | null => {
+    history = [...history.filter(cast => time - cast.time <= historyMs), { element, time }];
+
+    const match = byLength.find(recipe => {
+      const casts = history.slice(-recipe.sequence.length);
+      return casts.length === recipe.sequence.length &&
+        casts.every((cast, i) => cast.element === recipe.sequence[i]) &&
+        time - casts[0].time <= recipe.windowMs;
+    });
+
+    return match ?? null;
+  };
+
+  const reset = () => {
+    history = [];
+  };
+
+  return { record, reset };
+};
+
+export type ComboTracker = ReturnType<typeof createComboTracker>;
+
+// Greedy chain: each jump goes to the nearest unstruck candidate within range of the previous one
+export const pickChainTargets = <T extends Vec2>(from: Vec2, candidates: T[], effect: ChainEffect): T[] => {
+  const struck: T[] = [];
+  let current = from;
+  let remaining = candidates;
+
+  for (let jump = 0; jump < effect.jumps; jump++) {
+    const next = remaining
+      .map(candidate => ({ candidate, distance: Math.hypot(candidate.x - current.x, candidate.y - current.y) }))
+      .filter(({ distance }) => distance <= effect.range)
+      .sort((a, b) => a.distance - b.distance)[0]?.candidate;
+    if (!next) break;
+    struck.push(next);
+    current = next;
+    remaining = remaining.filter(candidate => candidate !== next);
+  }
+  return struck;
+};
+
+interface ComboDiscovery {
+  id: string;
+  discoveredAt: number;
+}
+
+export const loadDiscoveredCombos = async () =>
+  (await getAll<ComboDiscovery>(STORES.discoveredCombos)).map(discovery => discovery.id);
+
+export const saveDiscoveredCombo = (id: string) =>
+  put<ComboDiscovery>(STORES.discoveredCombos, { id, discoveredAt: Date.now() });
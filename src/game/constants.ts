@@ -0,0 +1,2 @@
+// Game-wide limits shared by the engine, the HUD and saved progressions
+export const MAX_MANA = 100;
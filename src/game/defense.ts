@@ -0,0 +1,62 @@
+import type { Handedness } from '../types/hand';
+import type { Vec2 } from './aiming';
+
+export const PLAYER_MAX_HEALTH = 100;
+
+// Enemy attacks land once they cross into this fraction of the screen (the player's side)
+export const PLAYER_ZONE_X = 0.2;
+
+// A fresh open palm (no pending cast) must be held this long before the shield goes up,
+// so the palm shown to release a spell never doubles as a block
+export const SHIELD_RAISE_MS = 250;
+export const SHIELD_MANA_PER_SECOND = 12;
+
+// Which way the palm faces, from the winding of wrist → index knuckle → pinky knuckle in screen
+// coordinates. The screen is mirrored, so a right palm facing the camera winds one way and a left
+// palm the other; showing the back of the hand flips it. In-plane rotation doesn't change the sign.
+export const isPalmFacingCamera = (keypoints: Vec2[], handedness: Handedness) => {
+  const [wrist, indexMcp, pinkyMcp] = [keypoints[0], keypoints[5], keypoints[17]];
+  const cross =
+    (indexMcp.x - wrist.x) * (pinkyMcp.y - wrist.y) - (indexMcp.y - wrist.y) * (pinkyMcp.x - wrist.x);
+  return handedness === 'Right' ? cross > 0 : cross < 0;
+};
+
+export interface EnemyAttack {
+  id: number;
+  x: number;
+  y: number;
+  vx: number; // px/tick
+  vy: number;
+  damage: number;
+  radius: number;
+}
+
+// Throw from the enemy towards a random point on the player's side of the screen
+export const launchEnemyAttack = (
+  id: number,
+  from: Vec2,
+  damage: number,
+  speed: number,
+  viewport: { width: number; height: number },
+  random: () => number = Math.random
+): EnemyAttack => {
+  const target = {
+    x: viewport.width * PLAYER_ZONE_X * 0.5,
+    y: viewport.height * (0.3 + random() * 0.5)
+  };
+  const dx = target.x - from.x;
+  const dy = target.y - from.y;
+  const distance = Math.hypot(dx, dy) || 1;
+  return {
+    id,
+    x: from.x,
+    y: from.y,
+    vx: (dx / distance) * speed,
+    vy: (dy / distance) * speed,
+    damage,
+    radius: 12
+  };
+};
+
+export const reachedPlayer = (attack: EnemyAttack, viewport: { width: number }) =>
+  attack.x <= viewport.width * PLAYER_ZONE_X;
@@ -0,0 +1,56 @@
+import type { GameResult } from './modes';
+
+export const DRILL_PROMPTS = 10;
+// A prompt not matched within this window counts as a miss
+export const DRILL_TIMEOUT_MS = 4000;
+// Pause between prompts so the next one doesn't match a lingering pose
+export const DRILL_PAUSE_MS = 600;
+
+export const DRILL_GESTURES: Array<{ gesture: string; icon: string; name: string }> = [
+  { gesture: 'fist', icon: '✊', name: '주먹' },
+  { gesture: 'palm', icon: '✋', name: '손바닥' },
+  { gesture: 'point', icon: '👉', name: '검지' },
+  { gesture: 'peace', icon: '✌️', name: '브이' },
+  { gesture: 'rock', icon: '🤘', name: '락' },
+  { gesture: 'shaka', icon: '🤙', name: '샤카' }
+];
+
+export interface DrillAttempt {
+  gesture: string;
+  reactionMs: number | null; // Null when the prompt timed out
+}
+
+// Never prompt a pose a hand is already showing - it would match before the player reacts
+export const pickDrillGesture = (showing: string[], random: () => number = Math.random) => {
+  const choices = DRILL_GESTURES.filter(entry => !showing.includes(entry.gesture));
+  return choices[Math.floor(random() * choices.length)].gesture;
+};
+
+// 100 for any match, plus up to 900 more the faster it came
+export const drillAttemptScore = ({ reactionMs }: DrillAttempt) =>
+  reactionMs === null ? 0 : Math.round(100 + 900 * Math.max(0, 1 - reactionMs / DRILL_TIMEOUT_MS));
+
+export const drillResult = (attempts: DrillAttempt[], durationMs: number): GameResult => {
+  const reactions = attempts.map(attempt => attempt.reactionMs).filter((ms): ms is number => ms !== null);
+  const average = reactions.length > 0 ? reactions.reduce((sum, ms) => sum + ms, 0) / reactions.length : null;
+  // Longest run of prompts matched in a row
+  let streak = 0;
+  let maxStreak = 0;
+  attempts.forEach(attempt => {
+    streak = attempt.reactionMs === null ? 0 : streak + 1;
+    maxStreak = Math.max(maxStreak, streak);
+  });
+  return {
+    mode: 'drill',
+    score: attempts.reduce((sum, attempt) => sum + drillAttemptScore(attempt), 0),
+    hits: reactions.length,
+    maxCombo: maxStreak,
+    durationMs,
+    stats: [
+      { label: '인식 성공', value: `${reactions.length}/${attempts.length}` },
+      { label: '평균 반응', value: average === null ? '-' : `${(average / 1000).toFixed(2)}초` },
+      { label: '최고 반응', value: reactions.length > 0 ? `${(Math.min(...reactions) / 1000).toFixed(2)}초` : '-' }
+    ],
+    finishedAt: new Date().toISOString()
+  };
+};
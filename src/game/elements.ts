@@ -0,0 +1,86 @@
+import type { SpellElement } from './spells';
+
+export type StatusId = 'burn' | 'wet';
+
+export interface StatusEffect {
+  id: StatusId;
+  remainingMs: number;
+  sinceTickMs: number; // Time accumulated towards the next damage tick
+}
+
+interface StatusDefinition {
+  name: string;
+  icon: string;
+  durationMs: number;
+  tickDamage: number; // Damage per tick, 0 for statuses that only modify hits
+  tickIntervalMs: number;
+}
+
+export const STATUS_DEFINITIONS: Record<StatusId, StatusDefinition> = {
+  burn: { name: '화상', icon: '🔥', durationMs: 3000, tickDamage: 4, tickIntervalMs: 500 },
+  wet: { name: '젖음', icon: '💧', durationMs: 5000, tickDamage: 0, tickIntervalMs: 0 }
+};
+
+// Damage multiplier per element: below 1 resists, above 1 is a weakness
+export type ElementAffinities = Partial<Record<SpellElement, number>>;
+
+// Lightning conducts through water
+const WET_LIGHTNING_MULTIPLIER = 1.5;
+
+const hasStatus = (statuses: StatusEffect[], id: StatusId) => statuses.some(status => status.id === id);
+
+const withStatus = (statuses: StatusEffect[], id: StatusId): StatusEffect[] => [
+  ...statuses.filter(status => status.id !== id),
+  { id, remainingMs: STATUS_DEFINITIONS[id].durationMs, sinceTickMs: 0 }
+];
+
+const withoutStatus = (statuses: StatusEffect[], id: StatusId) => statuses.filter(status => status.id !== id);
+
+// Apply one elemental hit: affinity and status modifiers on the damage, then the element's status changes
+export const resolveHit = (
+  target: { affinities: ElementAffinities; statuses: StatusEffect[] },
+  element: SpellElement,
+  baseDamage: number
+): { damage: number; statuses: StatusEffect[] } => {
+  let damage = baseDamage * (target.affinities[element] ?? 1);
+  let statuses = target.statuses;
+
+  switch (element) {
+    case 'fire':
+      statuses = withStatus(statuses, 'burn');
+      break;
+    case 'water':
+      // Water puts out fire
+      statuses = withStatus(withoutStatus(statuses, 'burn'), 'wet');
+      break;
+    case 'lightning':
+      if (hasStatus(statuses, 'wet')) damage *= WET_LIGHTNING_MULTIPLIER;
+      break;
+  }
+
+  return { damage, statuses };
+};
+
+// Advance status timers by dtMs, returning the damage-over-time dealt in that span
+export const tickStatuses = (statuses: StatusEffect[], dtMs: number): { damage: number; statuses: StatusEffect[] } => {
+  let damage = 0;
+  const next: StatusEffect[] = [];
+
+  statuses.forEach(status => {
+    const definition = STATUS_DEFINITIONS[status.id];
+    const elapsed = Math.min(dtMs, status.remainingMs);
+    let sinceTickMs = status.sinceTickMs + elapsed;
+
+    if (definition.tickDamage > 0) {
+      while (sinceTickMs >= definition.tickIntervalMs) {
+        damage += definition.tickDamage;
+        sinceTickMs -= definition.tickIntervalMs;
+      }
+    }
+
+    const remainingMs = status.remainingMs - elapsed;
+    if (remainingMs > 0) next.push({ ...status, remainingMs, sinceTickMs });
+  });
+
+  return { damage, statuses: next };
+};
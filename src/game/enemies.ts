@@ -0,0 +1,172 @@
+import { resolveHit, type ElementAffinities, type StatusEffect } from './elements';
+import type { Vec2 } from './aiming';
+import type { SpellElement } from './spells';
+
+export type EnemyTypeId = 'dummy' | 'imp' | 'wisp';
+
+export type MovementPattern = 'stationary' | 'patrol' | 'float';
+
+export interface EnemyAttackConfig {
+  damage: number;
+  cooldownMs: number;
+  telegraphMs: number; // Warning shown before each throw
+  speed: number; // px/tick
+}
+
+export interface EnemyType {
+  id: EnemyTypeId;
+  name: string;
+  maxHealth: number;
+  hitbox: { width: number; height: number }; // Screen pixels, centred on the enemy
+  affinities: ElementAffinities;
+  movement: MovementPattern;
+  experience: number; // Awarded on defeat
+  attack: EnemyAttackConfig | null; // null for enemies that never fight back
+  spawnArea: { minX: number; maxX: number; minY: number; maxY: number }; // Normalized viewport fractions
+}
+
+export const ENEMY_TYPES: Record<EnemyTypeId, EnemyType> = {
+  // The original scarecrow: straw burns easily and soaks up water
+  dummy: {
+    id: 'dummy',
+    name: '허수아비',
+    maxHealth: 500,
+    hitbox: { width: 100, height: 190 },
+    affinities: { fire: 1.5, water: 0.75 },
+    movement: 'stationary',
+    experience: 50,
+    attack: null,
+    spawnArea: { minX: 0.6, maxX: 0.85, minY: 0.5, maxY: 0.55 }
+  },
+  imp: {
+    id: 'imp',
+    name: '임프',
+    maxHealth: 150,
+    hitbox: { width: 70, height: 90 },
+    affinities: { fire: 0.5, water: 1.5 },
+    movement: 'patrol',
+    experience: 30,
+    attack: { damage: 10, cooldownMs: 4000, telegraphMs: 900, speed: 7 },
+    spawnArea: { minX: 0.55, maxX: 0.8, minY: 0.6, maxY: 0.7 }
+  },
+  wisp: {
+    id: 'wisp',
+    name: '위습',
+    maxHealth: 80,
+    hitbox: { width: 50, height: 50 },
+    affinities: { lightning: 1.5, wind: 1.25, water: 0.5 },
+    movement: 'float',
+    experience: 40,
+    attack: { damage: 6, cooldownMs: 2800, telegraphMs: 600, speed: 10 },
+    spawnArea: { minX: 0.5, maxX: 0.85, minY: 0.2, maxY: 0.4 }
+  }
+};
+
+// Direct hits shake the enemy; damage over time (burns, combo clouds) only shows a quiet number
+export type DamageKind = 'hit' | 'tick';
+
+export interface DamageTaken {
+  amount: number; // Health actually lost
+  kind: DamageKind;
+  at: number; // World time, so repeated equal amounts still read as new damage
+}
+
+export interface Enemy {
+  id: number;
+  type: EnemyTypeId;
+  anchor: Vec2; // Normalized spawn point the movement pattern orbits
+  phase: number; // Per-enemy offset so a group doesn't move in lockstep
+  spawnedAt: number;
+  x: number; // Current screen position
+  y: number;
+  health: number;
+  maxHealth: number;
+  statuses: StatusEffect[];
+  nextAttackAt: number | null;
+  telegraphing: boolean;
+  lastDamage: DamageTaken | null;
+  defeatedAt: number | null;
+}
+
+export const spawnEnemy = (
+  id: number,
+  type: EnemyTypeId,
+  timestamp: number,
+  healthMultiplier = 1,
+  random: () => number = Math.random
+): Enemy => {
+  const { spawnArea, maxHealth, attack } = ENEMY_TYPES[type];
+  const health = Math.round(maxHealth * healthMultiplier);
+  return {
+    id,
+    type,
+    anchor: {
+      x: spawnArea.minX + random() * (spawnArea.maxX - spawnArea.minX),
+      y: spawnArea.minY + random() * (spawnArea.maxY - spawnArea.minY)
+    },
+    phase: random() * Math.PI * 2,
+    spawnedAt: timestamp,
+    x: 0,
+    y: 0,
+    health,
+    maxHealth: health,
+    statuses: [],
+    // Stagger the first throw so a fresh group doesn't fire in unison
+    nextAttackAt: attack ? timestamp + attack.cooldownMs * (0.75 + random() * 0.5) : null,
+    telegraphing: false,
+    lastDamage: null,
+    defeatedAt: null
+  };
+};
+
+// Normalized position at a point in time - computed from the anchor so window resizes never drift enemies
+export const enemyPosition = (enemy: Enemy, timestamp: number): Vec2 => {
+  const t = (timestamp - enemy.spawnedAt) / 1000;
+  switch (ENEMY_TYPES[enemy.type].movement) {
+    case 'stationary':
+      return enemy.anchor;
+    case 'patrol':
+      // Walks back and forth with a little hop
+      return {
+        x: enemy.anchor.x + 0.12 * Math.sin(t * 0.9 + enemy.phase),
+        y: enemy.anchor.y - 0.02 * Math.abs(Math.sin(t * 4 + enemy.phase))
+      };
+    case 'float':
+      // Lissajous drift through the air
+      return {
+        x: enemy.anchor.x + 0.1 * Math.sin(t * 1.1 + enemy.phase),
+        y: enemy.anchor.y + 0.08 * Math.sin(t * 1.7 + enemy.phase)
+      };
+  }
+};
+
+export const enemyHitbox = (enemy: Enemy) => ({ x: enemy.x, y: enemy.y, ...ENEMY_TYPES[enemy.type].hitbox });
+
+export const isAlive = (enemy: Enemy) => enemy.health > 0;
+
+// Damage landing on the same tick adds up, and one direct hit among it makes the whole tick a hit
+export const takeDamage = (enemy: Enemy, damage: number, kind: DamageKind, at: number): Enemy => {
+  const health = Math.max(0, enemy.health - damage);
+  const amount = enemy.health - health;
+  const previous = enemy.lastDamage;
+  const lastDamage: DamageTaken = previous?.at === at
+    ? { amount: previous.amount + amount, kind: previous.kind === 'hit' ? 'hit' : kind, at }
+    : { amount, kind, at };
+  return { ...enemy, health, lastDamage };
+};
+
+// Apply elemental damage using the enemy type's affinities
+export const damageEnemy = (
+  enemy: Enemy,
+  element: SpellElement,
+  baseDamage: number,
+  at: number,
+  kind: DamageKind = 'hit'
+): Enemy => {
+  const { damage, statuses } = resolveHit(
+    { affinities: ENEMY_TYPES[enemy.type].affinities, statuses: enemy.statuses },
+    element,
+    baseDamage
+  );
+  return takeDamage({ ...enemy, statuses }, damage, kind, at);
+};
@@ -0,0 +1,716 @@
+import type { HandData, Handedness } from '../types/hand';
+import type { CustomGesture } from '../lib/customGestures';
+import { normalizedToScreen, type Viewport } from '../lib/viewport';
+import { findSpellForGesture, type Spell } from './spells';
+import { tickStatuses } from './elements';
+import {
+  BACKFIRE_MANA_PENALTY,
+  OVERCHARGE_END,
+  getChargeLevel,
+  projectileScale,
+  resolveRelease,
+  type ChargeLevel,
+  type ChargeZone,
+  type ReleaseOutcome
+} from './charge';
+import {
+  BALLISTIC_GRAVITY,
+  DEFAULT_AIM_ASSIST,
+  aimFromHand,
+  circleHitsBox,
+  isOffscreen,
+  pickAssistTarget,
+  steerTowards,
+  type AimAssistConfig,
+  type Vec2
+} from './aiming';
+import {
+  ENEMY_TYPES,
+  damageEnemy,
+  enemyHitbox,
+  enemyPosition,
+  isAlive,
+  spawnEnemy,
+  takeDamage,
+  type Enemy,
+  type EnemyTypeId
+} from './enemies';
+import { WAVE_BREAK_MS, createWaveSpawner, getWaveConfig, type WaveState } from './waves';
+import {
+  COMBO_RECIPES,
+  createComboTracker,
+  pickChainTargets,
+  type CloudEffect,
+  type ComboRecipe
+} from './combos';
+import {
+  PLAYER_MAX_HEALTH,
+  SHIELD_MANA_PER_SECOND,
+  SHIELD_RAISE_MS,
+  isPalmFacingCamera,
+  launchEnemyAttack,
+  reachedPlayer,
+  type EnemyAttack
+} from './defense';
+import { MAX_MANA } from './constants';
+import { NO_TALENT_MODIFIERS, type TalentModifiers } from './talents';
+
+// Fixed simulation step - speeds and per-tick rates mean the same thing at any display refresh rate
+export const TICK_MS = 1000 / 60;
+// After a stall (background tab, breakpoint) the world skips ahead instead of fast-forwarding
+const MAX_ADVANCE_MS = 250;
+
+const MANA_REGEN_PER_SECOND = 2;
+
+// Each cast keeps the combo counter up for this long
+const COMBO_DECAY_MS = 5000;
+const HIT_EXPERIENCE = 5;
+
+// Defeated enemies stay in the world briefly so their last damage number can play out
+const DEFEAT_LINGER_MS = 700;
+
+export const CHAIN_BOLT_MS = 400;
+const PARTICLE_FADE_PER_TICK = 0.02;
+
+export interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  color: string;
+  size: number;
+}
+
+export interface SpellProjectile {
+  id: number;
+  spell: Spell;
+  x: number;
+  y: number;
+  vx: number; // px/tick
+  vy: number;
+  radius: number;
+  power: number; // Damage multiplier from the charge level
+  zone: ChargeZone; // Charge zone it was released in
+  combo: ComboRecipe | null; // Recipe this cast completed, unleashed on impact
+  particles: Particle[];
+}
+
+export interface ComboCloud {
+  id: number;
+  x: number;
+  y: number;
+  effect: CloudEffect;
+  expiresAt: number;
+  sinceTickMs: number;
+}
+
+export interface ChainBolt {
+  id: number;
+  points: Vec2[];
+  color: string;
+  expiresAt: number;
+}
+
+export interface HandCharge {
+  spell: Spell;
+  startTime: number;
+  chargeTime: number; // The spell's charge time after talents
+  handedness: Handedness;
+  runeDrawn: boolean;
+}
+
+export interface ChargeSnapshot extends HandCharge {
+  level: ChargeLevel;
+}
+
+// Inputs from the outside world, applied in order at the start of the next tick
+export type GameCommand =
+  | { type: 'hands'; hands: HandData[] }
+  | { type: 'resize'; viewport: Viewport }
+  | { type: 'spellbook'; spells: Spell[]; customGestures: CustomGesture[] }
+  | { type: 'talents'; modifiers: TalentModifiers };
+
+// Why a release launched nothing: the charge's own outcome, or no mana left to pay for it
+export type SpellFailure = Exclude<ReleaseOutcome, 'cast'> | 'insufficient-mana';
+
+// Things that happened during a tick, for sounds, feedback and rewards outside the engine
+export type GameEvent =
+  | { type: 'chargeStarted'; spell: Spell; handedness: Handedness }
+  | { type: 'spellCast'; spell: Spell; zone: ChargeZone; combo: ComboRecipe | null }
+  | { type: 'spellFailed'; spell: Spell; reason: SpellFailure }
+  | { type: 'spellLocked'; spell: Spell }
+  | { type: 'spellHit'; spell: Spell; enemy: EnemyTypeId; zone: ChargeZone }
+  | { type: 'comboUnleashed'; combo: ComboRecipe }
+  | { type: 'spellMissed'; spell: Spell }
+  | { type: 'enemyDefeated'; enemy: EnemyTypeId }
+  | { type: 'experienceGained'; amount: number }
+  | { type: 'playerHit'; damage: number };
+
+// What a game mode changes about the world
+export interface GameRules {
+  durationMs: number | null; // The run ends when the clock reaches this; null plays on until defeat
+  waves: boolean; // Spawn escalating waves of enemies
+  enemyAttacks: boolean;
+  waveBreakMs: number;
+  hitTarget: number | null; // The run is cleared once this many spells have landed
+}
+
+// The endless sandbox
+export const DEFAULT_RULES: GameRules = {
+  durationMs: null,
+  waves: true,
+  enemyAttacks: true,
+  waveBreakMs: WAVE_BREAK_MS,
+  hitTarget: null
+};
+
+export type GameOutcome = 'playing' | 'timeUp' | 'defeated' | 'cleared';
+
+export interface GameSnapshot {
+  time: number; // Simulation clock, ms since the engine started
+  mana: number;
+  health: number;
+  enemies: Enemy[];
+  projectiles: SpellProjectile[];
+  enemyAttacks: EnemyAttack[];
+  clouds: ComboCloud[];
+  bolts: ChainBolt[];
+  charges: Record<number, ChargeSnapshot>; // Keyed by hand track ID
+  shieldUp: boolean;
+  wave: WaveState;
+  comboCount: number;
+  maxCombo: number; // Highest combo count reached this run
+  hitCount: number;
+  missCount: number;
+  damageDealt: number; // Everything taken off enemy health, for scoring
+  defeats: number;
+  timeLeft: number | null; // Ms until a timed run ends
+  outcome: GameOutcome;
+}
+
+export interface GameEngineOptions {
+  viewport: Viewport;
+  spells: Spell[];
+  customGestures?: CustomGesture[];
+  mana?: number; // Starting mana, e.g. carried over from a saved game
+  talents?: TalentModifiers;
+  recipes?: ComboRecipe[];
+  aimAssist?: AimAssistConfig;
+  rules?: GameRules;
+  random?: () => number; // Inject a seeded source to replay a run exactly
+}
+
+interface World {
+  time: number;
+  nextId: number;
+  mana: number;
+  manaFlow: number; // Fractional mana owed to (or by) the pool, paid out in whole points
+  health: number;
+  enemies: Enemy[];
+  projectiles: SpellProjectile[];
+  enemyAttacks: EnemyAttack[];
+  clouds: ComboCloud[];
+  bolts: ChainBolt[];
+  charges: Record<number, HandCharge>;
+  shieldUp: boolean;
+  comboExpiries: number[];
+  maxCombo: number;
+  hitCount: number;
+  missCount: number;
+  damageDealt: number;
+  defeats: number;
+  outcome: GameOutcome;
+  // Per-hand input tracking, keyed by track ID
+  lastGestures: Map<number, string>;
+  lastRunes: Map<number, number>;
+  aims: Map<number, Vec2>; // Last aim while the hand was not yet open - opening the palm shouldn't swing the shot
+  palmSince: Map<number, number>; // When a fresh palm opened with no spell pending - the start of a shield hold
+}
+
+const createWorld = (mana: number): World => ({
+  time: 0,
+  nextId: 1,
+  mana,
+  manaFlow: 0,
+  health: PLAYER_MAX_HEALTH,
+  enemies: [],
+  projectiles: [],
+  enemyAttacks: [],
+  clouds: [],
+  bolts: [],
+  charges: {},
+  shieldUp: false,
+  comboExpiries: [],
+  maxCombo: 0,
+  hitCount: 0,
+  missCount: 0,
+  damageDealt: 0,
+  defeats: 0,
+  outcome: 'playing',
+  lastGestures: new Map(),
+  lastRunes: new Map(),
+  aims: new Map(),
+  palmSince: new Map()
+});
+
+// Small deterministic PRNG (mulberry32) for replays and headless runs
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// The whole game world, free of React and the DOM. Time only moves through advance()/step(),
+// so the same options, commands and random source always produce the same run.
+export const createGameEngine = ({
+  viewport: initialViewport,
+  spells: initialSpells,
+  customGestures: initialCustomGestures = [],
+  mana: initialMana = MAX_MANA,
+  talents: initialTalents = NO_TALENT_MODIFIERS,
+  recipes = COMBO_RECIPES,
+  aimAssist = DEFAULT_AIM_ASSIST,
+  rules = DEFAULT_RULES,
+  random = Math.random
+}: GameEngineOptions) => {
+  let world = createWorld(initialMana);
+  let viewport = initialViewport;
+  let spells = initialSpells;
+  let customGestures = initialCustomGestures;
+  let talents = initialTalents;
+  let commands: GameCommand[] = [];
+  let events: GameEvent[] = [];
+  let accumulator = 0;
+  const waveSpawner = createWaveSpawner(random, rules.waveBreakMs);
+  const comboTracker = createComboTracker(recipes);
+
+  const chargeLevel = (charge: HandCharge) =>
+    getChargeLevel(world.time - charge.startTime, charge.chargeTime);
+
+  const launch = (spell: Spell, origin: Vec2, aim: Vec2, level: ChargeLevel) => {
+    const combo = comboTracker.record(spell.element, world.time);
+
+    // Launch along the aim direction, sized and sped up by the charge level
+    const scale = projectileScale(level.power);
+    const speed = spell.projectile.speed * scale.speed;
+    world.projectiles = [
+      ...world.projectiles,
+      {
+        id: world.nextId++,
+        spell,
+        x: origin.x,
+        y: origin.y,
+        vx: aim.x * speed,
+        vy: aim.y * speed,
+        radius: spell.projectile.radius * scale.size,
+        power: level.power,
+        zone: level.zone,
+        combo,
+        particles: []
+      }
+    ];
+    world.comboExpiries = [
+      ...world.comboExpiries.filter(expiresAt => world.time < expiresAt),
+      world.time + COMBO_DECAY_MS
+    ];
+    world.maxCombo = Math.max(world.maxCombo, world.comboExpiries.length);
+    events.push({ type: 'spellCast', spell, zone: level.zone, combo });
+  };
+
+  // Rune spells fizzle without their rune, as do releases before the spell has gathered enough charge.
+  // Without an origin (the hand never opened) nothing can be launched, which only happens on a forced backfire;
+  // a cast that still ends up without one is reported as a fizzle.
+  const release = (charge: HandCharge, origin: Vec2 | null, aim: Vec2) => {
+    const level = chargeLevel(charge);
+    const runeReady = !charge.spell.rune || charge.runeDrawn;
+    const outcome = runeReady ? resolveRelease(level, random) : 'fizzle';
+    const { spell } = charge;
+
+    if (outcome === 'backfire') {
+      // Mana only ever moves in whole points, so the penalty is rounded like regeneration is
+      world.mana = Math.max(0, world.mana - Math.round(spell.manaCost * (1 + BACKFIRE_MANA_PENALTY)));
+      events.push({ type: 'spellFailed', spell, reason: outcome });
+    } else if (outcome === 'fizzle' || !origin) {
+      events.push({ type: 'spellFailed', spell, reason: 'fizzle' });
+    } else if (world.mana < spell.manaCost) {
+      events.push({ type: 'spellFailed', spell, reason: 'insufficient-mana' });
+    } else {
+      world.mana -= spell.manaCost;
+      launch(spell, origin, aim, level);
+    }
+  };
+
+  // Charge on fist → spell gesture, release on palm; a fresh palm with nothing charging starts a shield hold
+  const applyHands = (hands: HandData[]) => {
+    const nextCharges: Record<number, HandCharge> = {};
+
+    hands.forEach(hand => {
+      const { gesture } = hand;
+      const lastGesture = world.lastGestures.get(hand.id) ?? 'none';
+      let charge: HandCharge | undefined = world.charges[hand.id];
+
+      // A rune drawn since the last input satisfies the charging spell's rune requirement
+      const newRune = hand.rune && hand.rune.recognizedAt !== world.lastRunes.get(hand.id)
+        ? hand.rune
+        : null;
+      if (newRune) world.lastRunes.set(hand.id, newRune.recognizedAt);
+
+      const handAim = aimFromHand(hand.keypoints);
+      if (handAim && gesture !== 'palm') world.aims.set(hand.id, handAim);
+
+      // Only the inside of the hand blocks - turning it around drops the shield
+      const shieldPalm = gesture === 'palm' && isPalmFacingCamera(hand.keypoints, hand.handedness);
+      if (shieldPalm && !charge && lastGesture !== 'palm') {
+        world.palmSince.set(hand.id, world.time);
+      } else if (!shieldPalm) {
+        world.palmSince.delete(hand.id);
+      }
+      if (charge && newRune && !charge.runeDrawn && newRune.name === charge.spell.rune) {
+        charge = { ...charge, runeDrawn: true };
+      }
+
+      if (charge && gesture === 'palm') {
+        // Fall back to straight up when the hand never gave a usable direction
+        const tip = hand.keypoints[8];
+        release(charge, { x: tip.x, y: tip.y }, world.aims.get(hand.id) ?? handAim ?? { x: 0, y: -1 });
+      } else if (lastGesture === 'fist' && gesture !== 'fist' && gesture !== 'none') {
+        const spell = findSpellForGesture(spells, gesture, customGestures);
+        if (spell && talents.lockedSpells.includes(spell.id)) {
+          events.push({ type: 'spellLocked', spell });
+          if (charge) nextCharges[hand.id] = charge;
+        } else if (spell && world.mana >= spell.manaCost) {
+          nextCharges[hand.id] = {
+            spell,
+            startTime: world.time,
+            chargeTime: spell.chargeTime * talents.chargeTimeMultiplier,
+            handedness: hand.handedness,
+            runeDrawn: false
+          };
+          events.push({ type: 'chargeStarted', spell, handedness: hand.handedness });
+        } else if (charge) {
+          nextCharges[hand.id] = charge;
+        }
+      } else if (charge) {
+        nextCharges[hand.id] = charge;
+      }
+
+      world.lastGestures.set(hand.id, gesture);
+    });
+
+    // Forget hands that left the frame, along with their charges
+    const visibleIds = new Set(hands.map(hand => hand.id));
+    [world.lastGestures, world.lastRunes, world.aims, world.palmSince].forEach(byHand => {
+      byHand.forEach((_, id) => {
+        if (!visibleIds.has(id)) byHand.delete(id);
+      });
+    });
+    world.charges = nextCharges;
+  };
+
+  const applyCommand = (command: GameCommand) => {
+    switch (command.type) {
+      case 'hands':
+        // No casting or shielding once the run is over
+        if (world.outcome === 'playing') applyHands(command.hands);
+        break;
+      case 'resize':
+        viewport = command.viewport;
+        break;
+      case 'spellbook':
+        spells = command.spells;
+        customGestures = command.customGestures;
+        break;
+      case 'talents':
+        talents = command.modifiers;
+        break;
+    }
+  };
+
+  const step = () => {
+    const pending = commands;
+    commands = [];
+    pending.forEach(applyCommand);
+
+    // The world freezes once the run is over
+    if (world.outcome !== 'playing') return;
+
+    world.time += TICK_MS;
+    const now = world.time;
+
+    // Holding through the whole overcharge window releases on its own
+    Object.entries(world.charges).forEach(([id, charge]) => {
+      if (chargeLevel(charge).ratio < OVERCHARGE_END) return;
+      release(charge, null, { x: 0, y: -1 });
+      delete world.charges[Number(id)];
+    });
+
+    // Shield is up while any hand holds its palm long enough and there is mana to feed it
+    world.shieldUp = world.mana > 0 && [...world.palmSince.values()].some(since => now - since >= SHIELD_RAISE_MS);
+
+    // Spawn whatever the wave calls for
+    const spawns = rules.waves ? waveSpawner.update(now, world.enemies.filter(isAlive).length) : [];
+    const { healthMultiplier } = getWaveConfig(Math.max(waveSpawner.state().wave, 1));
+    let nextEnemies = [
+      ...world.enemies,
+      ...spawns.map(type => spawnEnemy(world.nextId++, type, now, healthMultiplier, random))
+    ];
+    const healthBefore = new Map(nextEnemies.map(enemy => [enemy.id, enemy.health]));
+
+    // Move living enemies and tick their status effects (burn damage, expiring wet)
+    nextEnemies = nextEnemies.map(enemy => {
+      if (!isAlive(enemy)) return enemy;
+      const anchor = enemyPosition(enemy, now);
+      const position = normalizedToScreen(viewport, anchor.x, anchor.y);
+      const { damage, statuses } = enemy.statuses.length > 0
+        ? tickStatuses(enemy.statuses, TICK_MS)
+        : { damage: 0, statuses: enemy.statuses };
+      const moved = { ...enemy, ...position, statuses };
+      return damage > 0 ? takeDamage(moved, damage, 'tick', now) : moved;
+    });
+
+    // Enemies telegraph, then throw at the player's side of the screen
+    const launched: EnemyAttack[] = [];
+    nextEnemies = nextEnemies.map(enemy => {
+      const attack = ENEMY_TYPES[enemy.type].attack;
+      if (!rules.enemyAttacks || !attack || enemy.nextAttackAt === null || !isAlive(enemy)) return enemy;
+      if (now >= enemy.nextAttackAt) {
+        launched.push(launchEnemyAttack(world.nextId++, enemy, attack.damage, attack.speed, viewport, random));
+        return { ...enemy, nextAttackAt: now + attack.cooldownMs, telegraphing: false };
+      }
+      const telegraphing = now >= enemy.nextAttackAt - attack.telegraphMs;
+      return telegraphing === enemy.telegraphing ? enemy : { ...enemy, telegraphing };
+    });
+
+    // Fly enemy attacks; the shield blocks anything that reaches the player
+    let damageTaken = 0;
+    const nextAttacks: EnemyAttack[] = [];
+    [...world.enemyAttacks, ...launched].forEach(attack => {
+      const moved = { ...attack, x: attack.x + attack.vx, y: attack.y + attack.vy };
+      if (reachedPlayer(moved, viewport)) {
+        if (!world.shieldUp) damageTaken += moved.damage;
+      } else if (!isOffscreen(moved, viewport)) {
+        nextAttacks.push(moved);
+      }
+    });
+
+    // Mana regenerates over time, while holding the shield costs more than that
+    const manaRate = MANA_REGEN_PER_SECOND + talents.manaRegenBonus - (world.shieldUp ? SHIELD_MANA_PER_SECOND : 0);
+    world.manaFlow += (manaRate * TICK_MS) / 1000;
+    const whole = Math.trunc(world.manaFlow);
+    if (whole !== 0) {
+      world.manaFlow -= whole;
+      world.mana = Math.min(MAX_MANA, Math.max(0, world.mana + whole));
+    }
+
+    // Combo clouds damage everything inside them on each tick, until they dissipate
+    const nextClouds: ComboCloud[] = [];
+    world.clouds.forEach(cloud => {
+      if (now >= cloud.expiresAt) return;
+      const tickDamage = cloud.effect.tickDamage * talents.elementDamage[cloud.effect.element];
+      let sinceTickMs = cloud.sinceTickMs + TICK_MS;
+      while (sinceTickMs >= cloud.effect.tickIntervalMs) {
+        sinceTickMs -= cloud.effect.tickIntervalMs;
+        nextEnemies = nextEnemies.map(enemy =>
+          isAlive(enemy) && Math.hypot(enemy.x - cloud.x, enemy.y - cloud.y) <= cloud.effect.radius
+            ? damageEnemy(enemy, cloud.effect.element, tickDamage, now, 'tick')
+            : enemy
+        );
+      }
+      nextClouds.push({ ...cloud, sinceTickMs });
+    });
+    const nextBolts = world.bolts.filter(bolt => now < bolt.expiresAt);
+
+    world.comboExpiries = world.comboExpiries.filter(expiresAt => now < expiresAt);
+    const comboBonus = 1 + world.comboExpiries.length * 0.1;
+
+    let hits = 0;
+    let misses = 0;
+    const nextProjectiles: SpellProjectile[] = [];
+    world.projectiles.forEach(projectile => {
+      const position = { x: projectile.x, y: projectile.y };
+      const targetIndex = nextEnemies.findIndex(enemy =>
+        isAlive(enemy) && circleHitsBox(position, projectile.radius, enemyHitbox(enemy))
+      );
+
+      if (targetIndex >= 0) {
+        const target = nextEnemies[targetIndex];
+        const { element } = projectile.spell;
+        const baseDamage = projectile.spell.damage * projectile.power * comboBonus * talents.elementDamage[element];
+        nextEnemies[targetIndex] = damageEnemy(target, element, baseDamage, now);
+        hits++;
+        events.push({ type: 'spellHit', spell: projectile.spell, enemy: target.type, zone: projectile.zone });
+
+        // A combo-completing cast unleashes its recipe where it lands, spending the casts that made it
+        if (projectile.combo) {
+          comboTracker.reset();
+          events.push({ type: 'comboUnleashed', combo: projectile.combo });
+        }
+        const effect = projectile.combo?.effect;
+        if (effect?.type === 'cloud') {
+          nextClouds.push({ id: projectile.id, ...position, effect, expiresAt: now + effect.durationMs, sinceTickMs: 0 });
+        } else if (effect?.type === 'chain') {
+          const struck = nextEnemies[targetIndex];
+          const chained = pickChainTargets(
+            struck,
+            nextEnemies.filter(enemy => enemy !== struck && isAlive(enemy)),
+            effect
+          );
+          chained.forEach(enemy => {
+            const damage = effect.damage * talents.elementDamage[effect.element];
+            nextEnemies[nextEnemies.indexOf(enemy)] = damageEnemy(enemy, effect.element, damage, now);
+          });
+          nextBolts.push({
+            id: projectile.id,
+            points: [struck, ...chained].map(({ x, y }) => ({ x, y })),
+            color: effect.color,
+            expiresAt: now + CHAIN_BOLT_MS
+          });
+        }
+        return;
+      }
+
+      if (isOffscreen(position, viewport)) {
+        misses++;
+        events.push({ type: 'spellMissed', spell: projectile.spell });
+        return;
+      }
+
+      // Aim assist nudges shots that are already close, then gravity bends ballistic ones
+      const heading = { x: projectile.vx, y: projectile.vy };
+      const assistTarget = pickAssistTarget(heading, position, nextEnemies.filter(isAlive));
+      const velocity = assistTarget ? steerTowards(heading, position, assistTarget, aimAssist) : { ...heading };
+      if (projectile.spell.projectile.path === 'ballistic') {
+        velocity.y += BALLISTIC_GRAVITY;
+      }
+
+      const newParticles: Particle[] = [];
+      for (let i = 0; i < projectile.spell.projectile.particlesPerFrame; i++) {
+        newParticles.push({
+          x: projectile.x,
+          y: projectile.y,
+          vx: (random() - 0.5) * 2,
+          vy: (random() - 0.5) * 2,
+          life: 1,
+          color: projectile.spell.particleColor,
+          size: random() * 4 + 2
+        });
+      }
+
+      nextProjectiles.push({
+        ...projectile,
+        x: projectile.x + velocity.x,
+        y: projectile.y + velocity.y,
+        vx: velocity.x,
+        vy: velocity.y,
+        particles: [...projectile.particles, ...newParticles]
+          .map(p => ({ ...p, x: p.x + p.vx, y: p.y + p.vy, life: p.life - PARTICLE_FADE_PER_TICK }))
+          .filter(p => p.life > 0)
+      });
+    });
+
+    // Every source of enemy damage is the player's, so the health lost this tick is damage dealt
+    nextEnemies.forEach(enemy => {
+      world.damageDealt += (healthBefore.get(enemy.id) ?? enemy.health) - enemy.health;
+    });
+
+    // Reward defeats once, then clear bodies after a short linger
+    let experience = hits * HIT_EXPERIENCE;
+    nextEnemies = nextEnemies
+      .map(enemy => {
+        if (isAlive(enemy) || enemy.defeatedAt !== null) return enemy;
+        experience += ENEMY_TYPES[enemy.type].experience;
+        world.defeats++;
+        events.push({ type: 'enemyDefeated', enemy: enemy.type });
+        return { ...enemy, defeatedAt: now };
+      })
+      .filter(enemy => enemy.defeatedAt === null || now - enemy.defeatedAt < DEFEAT_LINGER_MS);
+
+    world.enemies = nextEnemies;
+    world.projectiles = nextProjectiles;
+    world.enemyAttacks = nextAttacks;
+    world.clouds = nextClouds;
+    world.bolts = nextBolts;
+    world.hitCount += hits;
+    world.missCount += misses;
+
+    if (experience > 0) events.push({ type: 'experienceGained', amount: experience });
+    if (damageTaken > 0) {
+      world.health = Math.max(0, world.health - damageTaken);
+      events.push({ type: 'playerHit', damage: damageTaken });
+    }
+
+    if (world.health <= 0) {
+      world.outcome = 'defeated';
+    } else if (rules.durationMs !== null && now >= rules.durationMs) {
+      world.outcome = 'timeUp';
+    } else if (rules.hitTarget !== null && world.hitCount >= rules.hitTarget) {
+      world.outcome = 'cleared';
+    }
+  };
+
+  // Run as many whole ticks as the elapsed wall time covers; the remainder carries over
+  const advance = (elapsedMs: number) => {
+    accumulator += Math.min(Math.max(elapsedMs, 0), MAX_ADVANCE_MS);
+    let ticks = 0;
+    while (accumulator >= TICK_MS) {
+      accumulator -= TICK_MS;
+      step();
+      ticks++;
+    }
+    return ticks;
+  };
+
+  const dispatch = (command: GameCommand) => {
+    commands.push(command);
+  };
+
+  // Events raised since the last call
+  const drainEvents = () => {
+    const drained = events;
+    events = [];
+    return drained;
+  };
+
+  const snapshot = (): GameSnapshot => ({
+    time: world.time,
+    mana: world.mana,
+    health: world.health,
+    enemies: world.enemies,
+    projectiles: world.projectiles,
+    enemyAttacks: world.enemyAttacks,
+    clouds: world.clouds,
+    bolts: world.bolts,
+    charges: Object.fromEntries(
+      Object.entries(world.charges).map(([id, charge]) => [id, { ...charge, level: chargeLevel(charge) }])
+    ),
+    shieldUp: world.shieldUp,
+    wave: waveSpawner.state(),
+    comboCount: world.comboExpiries.length,
+    maxCombo: world.maxCombo,
+    hitCount: world.hitCount,
+    missCount: world.missCount,
+    damageDealt: world.damageDealt,
+    defeats: world.defeats,
+    timeLeft: rules.durationMs === null ? null : Math.max(0, rules.durationMs - world.time),
+    outcome: world.outcome
+  });
+
+  const reset = () => {
+    world = createWorld(initialMana);
+    commands = [];
+    events = [];
+    accumulator = 0;
+    waveSpawner.reset();
+    comboTracker.reset();
+  };
+
+  return { dispatch, step, advance, snapshot, drainEvents, reset };
+};
+
+export type GameEngine = ReturnType<typeof createGameEngine>;
@@ -0,0 +1,70 @@
+import type { HandData, Handedness } from '../types/hand';
+import { createEventBus, type BusEvent } from '../lib/eventBus';
+import type { ChargeZone } from './charge';
+import type { ComboRecipe } from './combos';
+import type { GameEvent } from './engine';
+import type { EnemyTypeId } from './enemies';
+import type { Spell } from './spells';
+
+// Everything gameplay announces to the rest of the app, by event name
+export type GameplayEvents = {
+  gestureChanged: { handId: number; handedness: Handedness; gesture: string; previous: string };
+  chargeStarted: { spell: Spell; handedness: Handedness };
+  spellCast: { spell: Spell; zone: ChargeZone; combo: ComboRecipe | null };
+  projectileHit: { spell: Spell; enemy: EnemyTypeId; zone: ChargeZone };
+  projectileMissed: { spell: Spell };
+  targetDefeated: { enemy: EnemyTypeId };
+  levelUp: { level: number; levelsGained: number };
+  manaChanged: { mana: number; previous: number };
+};
+
+export type GameplayEvent = BusEvent<GameplayEvents>;
+
+// Mana changes every frame while it regenerates, so it stays out of the debug log
+export const gameplayEvents = createEventBus<GameplayEvents>({ unlogged: ['manaChanged'] });
+
+// Republish the engine events other features care about; the rest stay inside the game view
+export const publishEngineEvent = (event: GameEvent) => {
+  switch (event.type) {
+    case 'chargeStarted':
+      gameplayEvents.emit('chargeStarted', { spell: event.spell, handedness: event.handedness });
+      break;
+    case 'spellCast':
+      gameplayEvents.emit('spellCast', { spell: event.spell, zone: event.zone, combo: event.combo });
+      break;
+    case 'spellHit':
+      gameplayEvents.emit('projectileHit', { spell: event.spell, enemy: event.enemy, zone: event.zone });
+      break;
+    case 'spellMissed':
+      gameplayEvents.emit('projectileMissed', { spell: event.spell });
+      break;
+    case 'enemyDefeated':
+      gameplayEvents.emit('targetDefeated', { enemy: event.enemy });
+      break;
+  }
+};
+
+// Compare two tracking frames by track ID; a hand that left the frame changes to 'none'
+export const publishGestureChanges = (previous: HandData[], next: HandData[]) => {
+  next.forEach(hand => {
+    const before = previous.find(other => other.id === hand.id)?.gesture ?? 'none';
+    if (hand.gesture !== before) {
+      gameplayEvents.emit('gestureChanged', {
+        handId: hand.id,
+        handedness: hand.handedness,
+        gesture: hand.gesture,
+        previous: before
+      });
+    }
+  });
+  previous.forEach(hand => {
+    if (hand.gesture !== 'none' && !next.some(other => other.id === hand.id)) {
+      gameplayEvents.emit('gestureChanged', {
+        handId: hand.id,
+        handedness: hand.handedness,
+        gesture: 'none',
+        previous: hand.gesture
+      });
+    }
+  });
+};
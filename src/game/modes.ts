@@ -0,0 +1,121 @@
+import { DEFAULT_RULES, type GameRules, type GameSnapshot } from './engine';
+import { WAVE_BREAK_MS } from './waves';
+
+export type GameModeId = 'practice' | 'timeAttack' | 'survival' | 'drill' | 'tutorial';
+
+export interface GameMode {
+  id: GameModeId;
+  name: string;
+  icon: string;
+  description: string;
+  rules: GameRules | null; // Null for modes that don't run the combat engine
+}
+
+export const TIME_ATTACK_MS = 60_000;
+
+export const GAME_MODES: GameMode[] = [
+  {
+    id: 'practice',
+    name: '자유 연습',
+    icon: '🎯',
+    description: '끝없이 이어지는 웨이브에서 마음껏 연습하세요. 적은 반격하지 않습니다.',
+    rules: { ...DEFAULT_RULES, enemyAttacks: false }
+  },
+  {
+    id: 'timeAttack',
+    name: '타임 어택',
+    icon: '⏱️',
+    description: '60초 동안 최대한 많은 피해를 입히세요. 적은 반격하지 않습니다.',
+    rules: { durationMs: TIME_ATTACK_MS, waves: true, enemyAttacks: false, waveBreakMs: 1000, hitTarget: null }
+  },
+  {
+    id: 'survival',
+    name: '서바이벌',
+    icon: '💀',
+    description: '쉴 틈 없이 강해지는 적을 상대로 최대한 오래 버티세요.',
+    rules: { durationMs: null, waves: true, enemyAttacks: true, waveBreakMs: 1000, hitTarget: null }
+  },
+  {
+    id: 'drill',
+    name: '제스처 훈련',
+    icon: '🤲',
+    description: '화면에 나오는 제스처를 최대한 빨리 정확하게 취하세요.',
+    rules: null
+  }
+];
+
+// The onboarding's guided first cast - wave 1 is harmless scarecrows, and one hit clears it.
+// Not offered on the mode select screen.
+export const TUTORIAL_MODE: GameMode = {
+  id: 'tutorial',
+  name: '튜토리얼',
+  icon: '🎓',
+  description: '허수아비에게 첫 마법을 맞혀 보세요.',
+  rules: { durationMs: null, waves: true, enemyAttacks: false, waveBreakMs: WAVE_BREAK_MS, hitTarget: 1 }
+};
+
+export const getGameMode = (id: GameModeId) =>
+  [...GAME_MODES, TUTORIAL_MODE].find(mode => mode.id === id) ?? GAME_MODES[0];
+
+export interface GameResult {
+  mode: GameModeId;
+  score: number;
+  hits: number;
+  maxCombo: number;
+  durationMs: number;
+  stats: Array<{ label: string; value: string }>; // Mode-specific lines for the results screen
+  finishedAt: string;
+}
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const formatAccuracy = (hits: number, misses: number) =>
+  hits + misses === 0 ? '-' : `${Math.round((hits / (hits + misses)) * 100)}%`;
+
+// Waves fully cleared - the current one counts once its break has started
+const wavesCleared = ({ wave }: GameSnapshot) => (wave.phase === 'break' ? wave.wave : wave.wave - 1);
+
+// Score a finished (or abandoned) combat run by its mode's rules
+export const resultFromSnapshot = (mode: GameModeId, snapshot: GameSnapshot): GameResult => {
+  const { time, hitCount, missCount, maxCombo, damageDealt, defeats, wave } = snapshot;
+  const accuracy = { label: '명중률', value: formatAccuracy(hitCount, missCount) };
+  const defeated = { label: '처치', value: String(defeats) };
+  const reached = { label: '도달 웨이브', value: String(Math.max(wave.wave, 1)) };
+  const finishedAt = new Date().toISOString();
+
+  switch (mode) {
+    case 'timeAttack':
+      return {
+        mode,
+        score: Math.round(damageDealt),
+        hits: hitCount,
+        maxCombo,
+        durationMs: time,
+        stats: [{ label: '총 피해', value: String(Math.round(damageDealt)) }, defeated, accuracy],
+        finishedAt
+      };
+    case 'survival':
+      return {
+        mode,
+        score: wavesCleared(snapshot) * 1000 + defeats * 100,
+        hits: hitCount,
+        maxCombo,
+        durationMs: time,
+        stats: [{ label: '생존 시간', value: formatDuration(time) }, reached, defeated],
+        finishedAt
+      };
+    default:
+      return {
+        mode,
+        score: defeats * 100 + hitCount * 10,
+        hits: hitCount,
+        maxCombo,
+        durationMs: time,
+        stats: [{ label: '플레이 시간', value: formatDuration(time) }, reached, defeated, accuracy],
+        finishedAt
+      };
+  }
+};
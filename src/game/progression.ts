@@ -0,0 +1,31 @@
+import { envNumber } from '../lib/env';
+
+export interface ExperienceCurve {
+  base: number; // XP needed to go from level 1 to 2
+  growth: number; // Each level needs this many times more than the one before
+}
+
+// Tunable per deployment through VITE_* variables (see .env.example)
+export const DEFAULT_XP_CURVE: ExperienceCurve = {
+  base: Math.max(envNumber(import.meta.env.VITE_XP_BASE, 100), 1),
+  growth: Math.max(envNumber(import.meta.env.VITE_XP_GROWTH, 1.2), 1)
+};
+
+export interface Progress {
+  level: number;
+  experience: number; // Towards the next level
+}
+
+export const experienceToNextLevel = (level: number, curve: ExperienceCurve = DEFAULT_XP_CURVE) =>
+  Math.round(curve.base * curve.growth ** (level - 1));
+
+// A big gain can cross several levels at once; whatever is left carries into the new level
+export const addExperience = (progress: Progress, amount: number, curve: ExperienceCurve = DEFAULT_XP_CURVE): Progress => {
+  let { level, experience } = progress;
+  experience += amount;
+  while (experience >= experienceToNextLevel(level, curve)) {
+    experience -= experienceToNextLevel(level, curve);
+    level++;
+  }
+  return { level, experience };
+};
@@ -0,0 +1,54 @@
+// Small declarative validators for the JSON game data (spellbook, combo recipes).
+// Each rule returns a problem description, or null when the value is valid.
+
+export type FieldRule = (value: unknown) => string | null;
+
+export type Schema<T> = Record<keyof T, FieldRule>;
+
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const nonEmptyString: FieldRule = value =>
+  typeof value === 'string' && value.trim() !== '' ? null : '비어 있지 않은 문자열이어야 합니다';
+
+export const numberAtLeast = (min: number): FieldRule => value =>
+  isNumber(value) && value >= min ? null : `${min} 이상의 숫자여야 합니다`;
+
+export const positiveNumber: FieldRule = value =>
+  isNumber(value) && value > 0 ? null : '0보다 큰 숫자여야 합니다';
+
+export const nonNegativeInteger: FieldRule = value =>
+  Number.isInteger(value) && (value as number) >= 0 ? null : '0 이상의 정수여야 합니다';
+
+export const oneOf = (options: readonly string[]): FieldRule => value =>
+  typeof value === 'string' && options.includes(value) ? null : `${options.join(' | ')} 중 하나여야 합니다`;
+
+// Canvas glows append an alpha byte, so colors must be 6-digit hex
+export const hexColor: FieldRule = value =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? null : '#rrggbb 형식의 색상이어야 합니다';
+
+export const optional = (rule: FieldRule): FieldRule => value => (value === undefined ? null : rule(value));
+
+export const nullable = (rule: FieldRule): FieldRule => value => (value === null ? null : rule(value));
+
+// Check every field of an object, plus any fields the schema doesn't know about
+export const checkFields = (value: Record<string, unknown>, schema: Record<string, FieldRule>, label: string) => {
+  const errors: string[] = [];
+  Object.entries(schema).forEach(([key, rule]) => {
+    const problem = rule(value[key]);
+    if (problem) errors.push(`${label}.${key}: ${problem}`);
+  });
+  Object.keys(value)
+    .filter(key => !(key in schema))
+    .forEach(key => errors.push(`${label}.${key}: 알 수 없는 필드입니다`));
+  return errors;
+};
+
+// A field holding a nested object, reported as one combined problem
+export const nested = (schema: Record<string, FieldRule>): FieldRule => value => {
+  if (!isObject(value)) return '객체여야 합니다';
+  const problems = checkFields(value, schema, '').map(problem => problem.slice(1));
+  return problems.length > 0 ? problems.join(', ') : null;
+};
@@ -0,0 +1,139 @@
+import type { CustomGesture } from '../lib/customGestures';
+import { STROKE_NAMES } from '../lib/strokeRecognizer';
+import { PROJECTILE_PATHS, type ProjectilePath } from './aiming';
+import {
+  checkFields,
+  hexColor,
+  isObject,
+  nested,
+  nonEmptyString,
+  nonNegativeInteger,
+  nullable,
+  numberAtLeast,
+  oneOf,
+  optional,
+  positiveNumber,
+  type FieldRule,
+  type Schema
+} from './schema';
+import spellbookJson from '../data/spells.json';
+
+export const SPELL_ELEMENTS = ['fire', 'water', 'wind', 'lightning'] as const;
+
+export type SpellElement = typeof SPELL_ELEMENTS[number];
+
+export interface SpellProjectileConfig {
+  path: ProjectilePath; // 'ballistic' arcs under gravity
+  speed: number; // Pixels per engine tick (60 per second)
+  radius: number; // Core radius in pixels - the glow is drawn at twice this
+  particlesPerFrame: number;
+}
+
+export interface Spell {
+  id: string;
+  name: string;
+  element: SpellElement;
+  damage: number;
+  manaCost: number;
+  chargeTime: number;
+  gesture: string; // Built-in gesture or the name of a custom gesture
+  rune?: string; // Stroke that must be drawn while charging before the spell can be released
+  color: string;
+  particleColor: string;
+  icon: string;
+  sound: string | null; // Path under public/, or null for a silent spell
+  projectile: SpellProjectileConfig;
+}
+
+// Charge and release gestures can't also select a spell
+const spellGesture: FieldRule = value =>
+  nonEmptyString(value) ?? (value === 'fist' || value === 'palm' ? 'fist / palm은 차지와 발사에 쓰입니다' : null);
+
+const PROJECTILE_SCHEMA: Schema<SpellProjectileConfig> = {
+  path: oneOf(PROJECTILE_PATHS),
+  speed: positiveNumber,
+  radius: positiveNumber,
+  particlesPerFrame: nonNegativeInteger
+};
+
+const SPELL_SCHEMA: Schema<Spell> = {
+  id: nonEmptyString,
+  name: nonEmptyString,
+  element: oneOf(SPELL_ELEMENTS),
+  damage: numberAtLeast(0),
+  manaCost: numberAtLeast(0),
+  chargeTime: positiveNumber,
+  gesture: spellGesture,
+  rune: optional(oneOf(STROKE_NAMES)),
+  color: hexColor,
+  particleColor: hexColor,
+  icon: nonEmptyString,
+  sound: nullable(nonEmptyString),
+  projectile: nested(PROJECTILE_SCHEMA)
+};
+
+// Validate a spellbook definition, listing every problem at once so designers can fix them in one pass
+export const parseSpellbook = (data: unknown): Spell[] => {
+  if (!isObject(data) || !Array.isArray(data.spells) || data.spells.length === 0) {
+    throw new Error('마법서에 "spells" 배열이 없습니다.');
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const gestures = new Set<string>();
+
+  data.spells.forEach((spell: unknown, index) => {
+    if (!isObject(spell)) {
+      errors.push(`spells[${index}]: 객체여야 합니다`);
+      return;
+    }
+    const label = typeof spell.id === 'string' ? `spells[${index}] (${spell.id})` : `spells[${index}]`;
+
+    errors.push(...checkFields(spell, SPELL_SCHEMA, label));
+
+    if (typeof spell.id === 'string') {
+      if (ids.has(spell.id)) errors.push(`${label}.id: 중복된 id입니다`);
+      ids.add(spell.id);
+    }
+    if (typeof spell.gesture === 'string') {
+      if (gestures.has(spell.gesture)) errors.push(`${label}.gesture: 다른 마법이 이미 "${spell.gesture}"를 사용합니다`);
+      gestures.add(spell.gesture);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`마법서 형식이 잘못되었습니다:\n${errors.join('\n')}`);
+  }
+  return data.spells as Spell[];
+};
+
+// Bundled spellbook - an invalid file fails loudly at startup rather than mid-game
+export const DEFAULT_SPELLS = parseSpellbook(spellbookJson);
+
+const reloadListeners = new Set<(spells: Spell[]) => void>();
+
+export const onSpellbookReload = (listener: (spells: Spell[]) => void) => {
+  reloadListeners.add(listener);
+  return () => {
+    reloadListeners.delete(listener);
+  };
+};
+
+// Dev only: swap in edited definitions without a page reload, keeping the old book if the edit is invalid
+if (import.meta.hot) {
+  import.meta.hot.accept('../data/spells.json', module => {
+    if (!module) return;
+    try {
+      const spells = parseSpellbook(module.default);
+      reloadListeners.forEach(listener => listener(spells));
+      console.info(`Spellbook reloaded (${spells.length} spells)`);
+    } catch (err) {
+      console.error(err instanceof Error ? err.message : err);
+    }
+  });
+}
+
+// A spell is cast by its own gesture or by any custom gesture bound to it
+export const findSpellForGesture = (spells: Spell[], gesture: string, customGestures: CustomGesture[]) =>
+  spells.find(spell => spell.gesture === gesture) ??
+  spells.find(spell => customGestures.some(g => g.name === gesture && g.spellId === spell.id));
@@ -0,0 +1,185 @@
+import { DEFAULT_SPELLS, SPELL_ELEMENTS, type SpellElement } from './spells';
+import {
+  checkFields,
+  isObject,
+  nonEmptyString,
+  numberAtLeast,
+  oneOf,
+  positiveNumber,
+  type FieldRule,
+  type Schema
+} from './schema';
+import talentsJson from '../data/talents.json';
+
+export type TalentBranch = 'mana' | 'casting' | 'elements';
+
+export const TALENT_BRANCHES: Array<{ id: TalentBranch; name: string }> = [
+  { id: 'mana', name: '마나' },
+  { id: 'casting', name: '시전' },
+  { id: 'elements', name: '속성' }
+];
+
+export type TalentEffect =
+  | { type: 'manaRegen'; perRank: number } // Mana per second
+  | { type: 'chargeSpeed'; perRank: number } // Fraction of charge time removed
+  | { type: 'elementDamage'; element: SpellElement; perRank: number } // Fraction of extra damage
+  | { type: 'unlockSpell'; spellId: string };
+
+export interface TalentNode {
+  id: string;
+  branch: TalentBranch;
+  name: string;
+  icon: string;
+  description: string;
+  maxRank: number;
+  minLevel: number;
+  requires: string[]; // Talents that need at least one rank first
+  effect: TalentEffect;
+}
+
+// Talent ranks by id - what the save file keeps
+export type TalentRanks = Record<string, number>;
+
+// One point per level gained, one point per rank
+export const TALENT_POINTS_PER_LEVEL = 1;
+
+// Charge can never drop below this fraction of a spell's base time
+const MIN_CHARGE_TIME_MULTIPLIER = 0.5;
+
+const EFFECT_SCHEMAS: Record<TalentEffect['type'], Record<string, FieldRule>> = {
+  manaRegen: { type: oneOf(['manaRegen']), perRank: positiveNumber },
+  chargeSpeed: { type: oneOf(['chargeSpeed']), perRank: positiveNumber },
+  elementDamage: { type: oneOf(['elementDamage']), element: oneOf(SPELL_ELEMENTS), perRank: positiveNumber },
+  unlockSpell: { type: oneOf(['unlockSpell']), spellId: nonEmptyString }
+};
+
+const NODE_SCHEMA: Schema<Omit<TalentNode, 'effect'>> & { effect: FieldRule } = {
+  id: nonEmptyString,
+  branch: oneOf(TALENT_BRANCHES.map(branch => branch.id)),
+  name: nonEmptyString,
+  icon: nonEmptyString,
+  description: nonEmptyString,
+  maxRank: value => (Number.isInteger(value) && (value as number) >= 1 ? null : '1 이상의 정수여야 합니다'),
+  minLevel: numberAtLeast(1),
+  requires: value =>
+    Array.isArray(value) && value.every(id => typeof id === 'string') ? null : '문자열 배열이어야 합니다',
+  effect: value => (isObject(value) ? null : '객체여야 합니다')
+};
+
+// Validate the talent tree like the spellbook, including links to other talents and spells
+export const parseTalentTree = (data: unknown, spellIds: string[] = DEFAULT_SPELLS.map(spell => spell.id)): TalentNode[] => {
+  if (!isObject(data) || !Array.isArray(data.talents)) {
+    throw new Error('특성 데이터에 "talents" 배열이 없습니다.');
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>(
+    data.talents.filter(isObject).map(node => node.id).filter((id): id is string => typeof id === 'string')
+  );
+  const seen = new Set<string>();
+
+  data.talents.forEach((node: unknown, index) => {
+    if (!isObject(node)) {
+      errors.push(`talents[${index}]: 객체여야 합니다`);
+      return;
+    }
+    const label = typeof node.id === 'string' ? `talents[${index}] (${node.id})` : `talents[${index}]`;
+    errors.push(...checkFields(node, NODE_SCHEMA, label));
+
+    const effect = node.effect;
+    if (isObject(effect)) {
+      const schema = EFFECT_SCHEMAS[effect.type as TalentEffect['type']];
+      if (schema) {
+        errors.push(...checkFields(effect, schema, `${label}.effect`));
+      } else {
+        errors.push(`${label}.effect.type: ${Object.keys(EFFECT_SCHEMAS).join(' | ')} 중 하나여야 합니다`);
+      }
+      if (effect.type === 'unlockSpell' && typeof effect.spellId === 'string' && !spellIds.includes(effect.spellId)) {
+        errors.push(`${label}.effect.spellId: 마법서에 "${effect.spellId}" 마법이 없습니다`);
+      }
+    }
+
+    if (Array.isArray(node.requires)) {
+      node.requires
+        .filter(id => typeof id === 'string' && !ids.has(id))
+        .forEach(id => errors.push(`${label}.requires: 없는 특성 "${id}"입니다`));
+    }
+    if (typeof node.id === 'string') {
+      if (seen.has(node.id)) errors.push(`${label}.id: 중복된 id입니다`);
+      seen.add(node.id);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`특성 데이터 형식이 잘못되었습니다:\n${errors.join('\n')}`);
+  }
+  return data.talents as TalentNode[];
+};
+
+export const TALENT_TREE = parseTalentTree(talentsJson);
+
+export const talentPoints = (level: number) => (level - 1) * TALENT_POINTS_PER_LEVEL;
+
+export const spentTalentPoints = (ranks: TalentRanks) =>
+  Object.values(ranks).reduce((sum, rank) => sum + rank, 0);
+
+// Why a rank can't be learned right now, or null when it can
+export const talentBlocker = (
+  node: TalentNode,
+  level: number,
+  ranks: TalentRanks,
+  tree: TalentNode[] = TALENT_TREE
+): string | null => {
+  if ((ranks[node.id] ?? 0) >= node.maxRank) return '최대 랭크';
+  if (level < node.minLevel) return `Lv.${node.minLevel} 필요`;
+  const missing = node.requires.find(id => !ranks[id]);
+  if (missing) return `${tree.find(n => n.id === missing)?.name ?? missing} 필요`;
+  if (spentTalentPoints(ranks) >= talentPoints(level)) return '포인트 부족';
+  return null;
+};
+
+// Everything the engine needs to know about learned talents
+export interface TalentModifiers {
+  manaRegenBonus: number; // Extra mana per second
+  chargeTimeMultiplier: number;
+  elementDamage: Record<SpellElement, number>; // Damage multiplier per element
+  lockedSpells: string[]; // Spell ids behind an unlock talent that hasn't been learned
+}
+
+export const talentModifiers = (ranks: TalentRanks, tree: TalentNode[] = TALENT_TREE): TalentModifiers => {
+  const modifiers: TalentModifiers = {
+    manaRegenBonus: 0,
+    chargeTimeMultiplier: 1,
+    elementDamage: Object.fromEntries(SPELL_ELEMENTS.map(element => [element, 1])) as Record<SpellElement, number>,
+    lockedSpells: []
+  };
+
+  tree.forEach(node => {
+    const rank = ranks[node.id] ?? 0;
+    const { effect } = node;
+    switch (effect.type) {
+      case 'manaRegen':
+        modifiers.manaRegenBonus += effect.perRank * rank;
+        break;
+      case 'chargeSpeed':
+        modifiers.chargeTimeMultiplier -= effect.perRank * rank;
+        break;
+      case 'elementDamage':
+        modifiers.elementDamage[effect.element] += effect.perRank * rank;
+        break;
+      case 'unlockSpell':
+        if (rank === 0) modifiers.lockedSpells.push(effect.spellId);
+        break;
+    }
+  });
+
+  modifiers.chargeTimeMultiplier = Math.max(modifiers.chargeTimeMultiplier, MIN_CHARGE_TIME_MULTIPLIER);
+  return modifiers;
+};
+
+// Neutral modifiers - nothing learned and nothing locked
+export const NO_TALENT_MODIFIERS = talentModifiers({}, []);
+
+// Level required to unlock a spell through the tree, if it is locked at all
+export const spellUnlockLevel = (spellId: string, tree: TalentNode[] = TALENT_TREE) =>
+  tree.find(node => node.effect.type === 'unlockSpell' && node.effect.spellId === spellId)?.minLevel ?? null;
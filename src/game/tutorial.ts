@@ -0,0 +1,120 @@
+import type { HandData } from '../types/hand';
+import { getFingerStates, type FingerName, type FingerStates } from '../lib/gestureClassifier';
+import type { ChargeSnapshot } from './engine';
+
+export interface TutorialStep {
+  id: string;
+  title: string;
+  illustration: string;
+  instruction: string;
+  gesture: string | null; // Null when any visible hand will do
+}
+
+// A pose has to be held this long to count, so a passing misread doesn't advance the lesson
+export const TUTORIAL_HOLD_MS = 800;
+// Below this the tracker is guessing, and finger hints would only mislead
+export const LOW_CONFIDENCE = 0.6;
+
+// The gesture lessons; the guided first cast at the scarecrow follows them
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  {
+    id: 'show-hand',
+    title: '손 보여주기',
+    illustration: '🖐️',
+    instruction: '손목까지 손 전체가 카메라에 보이도록 들어 올리세요.',
+    gesture: null
+  },
+  {
+    id: 'fist',
+    title: '주먹 - 마력 충전',
+    illustration: '✊',
+    instruction: '손가락을 모두 접어 주먹을 쥐세요. 모든 마법은 주먹에서 시작합니다.',
+    gesture: 'fist'
+  },
+  {
+    id: 'point',
+    title: '검지 - 파이어볼',
+    illustration: '👉',
+    instruction: '주먹에서 검지만 펴면 파이어볼 차지가 시작됩니다.',
+    gesture: 'point'
+  },
+  {
+    id: 'peace',
+    title: '브이 - 워터 웨이브',
+    illustration: '✌️',
+    instruction: '검지와 중지를 펴면 워터 웨이브를 차지합니다.',
+    gesture: 'peace'
+  },
+  {
+    id: 'palm',
+    title: '손바닥 - 발사',
+    illustration: '✋',
+    instruction: '다섯 손가락을 모두 펴면 차지한 마법이 날아갑니다.',
+    gesture: 'palm'
+  }
+];
+
+export const FINGER_NAMES: Record<FingerName, string> = {
+  thumb: '엄지',
+  index: '검지',
+  middle: '중지',
+  ring: '약지',
+  pinky: '새끼손가락'
+};
+
+// Fingers each built-in gesture needs extended (true) or folded (false); fingers left out don't matter
+export const GESTURE_FINGERS: Record<string, Partial<FingerStates>> = {
+  fist: { index: false, middle: false, ring: false, pinky: false },
+  palm: { thumb: true, index: true, middle: true, ring: true, pinky: true },
+  point: { index: true, middle: false, ring: false, pinky: false },
+  peace: { index: true, middle: true, ring: false, pinky: false },
+  rock: { thumb: true, index: true, middle: false, ring: false, pinky: true },
+  shaka: { thumb: true, index: false, middle: false, ring: false, pinky: true }
+};
+
+// 을 after a final consonant, 를 otherwise
+const withObjectParticle = (words: string[]) => {
+  const last = words[words.length - 1];
+  const code = last.charCodeAt(last.length - 1) - 0xac00;
+  return `${words.join(', ')}${code >= 0 && code < 11172 && code % 28 !== 0 ? '을' : '를'}`;
+};
+
+export const handFingerStates = (hand: HandData) => getFingerStates(hand.keypoints.map(p => [p.x, p.y, p.z]));
+
+// Why the hands don't satisfy a step yet, or null when they do
+export const tutorialProblem = (step: TutorialStep, hands: HandData[]): string | null => {
+  if (hands.length === 0) return '손이 보이지 않습니다. 카메라 앞에 손 전체가 들어오게 하세요.';
+  if (step.gesture === null || hands.some(hand => hand.gesture === step.gesture)) return null;
+
+  const hand = hands.reduce((best, candidate) => (candidate.confidence > best.confidence ? candidate : best));
+  if (hand.confidence < LOW_CONFIDENCE) {
+    return `인식 신뢰도가 낮습니다 (${Math.round(hand.confidence * 100)}%). 조명을 밝게 하고 손을 카메라 정면으로 보여 주세요.`;
+  }
+
+  const states = handFingerStates(hand);
+  const wrong = (Object.entries(GESTURE_FINGERS[step.gesture] ?? {}) as Array<[FingerName, boolean]>)
+    .filter(([finger, extended]) => states[finger] !== extended);
+  const toFold = wrong.filter(([, extended]) => !extended).map(([finger]) => FINGER_NAMES[finger]);
+  const toExtend = wrong.filter(([, extended]) => extended).map(([finger]) => FINGER_NAMES[finger]);
+
+  const hints = [
+    ...(toExtend.length > 0 ? [`${withObjectParticle(toExtend)} 펴세요`] : []),
+    ...(toFold.length > 0 ? [`${withObjectParticle(toFold)} 접으세요`] : [])
+  ];
+  return hints.length > 0 ? hints.join(' · ') : '자세를 조금 더 또렷하게 취해 보세요.';
+};
+
+// The guided first cast, one line per stage of fist → spell → release
+export const CAST_GUIDE: Array<{ illustration: string; text: string }> = [
+  { illustration: '✊', text: '주먹을 쥐세요' },
+  { illustration: '👉', text: '검지를 펴서 파이어볼을 차지하세요' },
+  { illustration: '⏳', text: '링이 초록색(완전 충전)이 될 때까지 기다리세요' },
+  { illustration: '✋', text: '손바닥을 펴서 허수아비에게 발사하세요!' }
+];
+
+// Which CAST_GUIDE stage the player is at right now
+export const castGuideStage = (hands: HandData[], charges: ChargeSnapshot[]) => {
+  const charge = charges[0];
+  if (charge) return charge.level.ratio >= 1 ? 3 : 2;
+  return hands.some(hand => hand.gesture === 'fist') ? 1 : 0;
+};
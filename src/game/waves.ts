@@ -0,0 +1,80 @@
+import type { EnemyTypeId } from './enemies';
+
+export interface WaveConfig {
+  count: number;
+  spawnIntervalMs: number;
+  roster: Array<{ type: EnemyTypeId; weight: number }>;
+  healthMultiplier: number;
+}
+
+// Pause between a cleared wave and the next one
+export const WAVE_BREAK_MS = 3000;
+
+// Escalation: more enemies, spawned faster and tougher, with imps from wave 2 and wisps from wave 3
+export const getWaveConfig = (wave: number): WaveConfig => ({
+  count: 1 + wave,
+  spawnIntervalMs: Math.max(800, 2500 - wave * 200),
+  roster: [
+    { type: 'dummy', weight: wave === 1 ? 1 : 0.2 },
+    ...(wave >= 2 ? [{ type: 'imp' as const, weight: 0.5 }] : []),
+    ...(wave >= 3 ? [{ type: 'wisp' as const, weight: 0.3 + 0.05 * wave }] : [])
+  ],
+  healthMultiplier: 1 + 0.15 * (wave - 1)
+});
+
+const pickWeighted = (roster: WaveConfig['roster'], random: () => number) => {
+  const total = roster.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = random() * total;
+  for (const entry of roster) {
+    roll -= entry.weight;
+    if (roll < 0) return entry.type;
+  }
+  return roster[roster.length - 1].type;
+};
+
+export type WavePhase = 'spawning' | 'clearing' | 'break';
+
+export interface WaveState {
+  wave: number;
+  phase: WavePhase;
+  spawned: number;
+  total: number;
+  breakEndsAt: number | null;
+}
+
+// Decides what to spawn each tick. Waves end once everything spawned has been defeated.
+export const createWaveSpawner = (random: () => number = Math.random, breakMs = WAVE_BREAK_MS) => {
+  let state: WaveState = { wave: 0, phase: 'break', spawned: 0, total: 0, breakEndsAt: null };
+  let lastSpawnAt = 0;
+
+  const update = (timestamp: number, aliveCount: number): EnemyTypeId[] => {
+    if (state.phase === 'break' && (state.breakEndsAt === null || timestamp >= state.breakEndsAt)) {
+      const wave = state.wave + 1;
+      state = { wave, phase: 'spawning', spawned: 0, total: getWaveConfig(wave).count, breakEndsAt: null };
+      lastSpawnAt = -Infinity;
+    }
+
+    if (state.phase === 'spawning') {
+      const config = getWaveConfig(state.wave);
+      if (timestamp - lastSpawnAt < config.spawnIntervalMs) return [];
+      lastSpawnAt = timestamp;
+      const spawned = state.spawned + 1;
+      state = { ...state, spawned, phase: spawned >= state.total ? 'clearing' : 'spawning' };
+      return [pickWeighted(config.roster, random)];
+    }
+
+    if (state.phase === 'clearing' && aliveCount === 0) {
+      state = { ...state, phase: 'break', breakEndsAt: timestamp + breakMs };
+    }
+    return [];
+  };
+
+  const reset = () => {
+    state = { wave: 0, phase: 'break', spawned: 0, total: 0, breakEndsAt: null };
+    lastSpawnAt = 0;
+  };
+
+  return { update, state: () => state, reset };
+};
+
+export type WaveSpawner = ReturnType<typeof createWaveSpawner>;
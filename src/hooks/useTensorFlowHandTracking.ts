@@ -1,9 +1,31 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import * as handpose from '@tensorflow-models/handpose';
-import '@tensorflow/tfjs-backend-webgl';
-import * as tf from '@tensorflow/tfjs';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 
-import type { HandKeypoint, HandData, HandPoseAnnotation } from '../types/hand';
+import type { HandKeypoint, HandData } from '../types/hand';
+import { assignTrackIds, type UntrackedHand } from '../lib/handTracks';
+import { createHandFilter } from '../lib/handFilter';
+import { classifyGesture } from '../lib/gestureClassifier';
+import { createStrokeTracker } from '../lib/strokeRecognizer';
+import {
+  createCustomGestureClassifier,
+  normalizeHand,
+  resolveGesture,
+  type CustomGestureClassifier
+} from '../lib/customGestures';
+import {
+  createHandTracker,
+  createWorkerHandTracker,
+  scaleRawHands,
+  supportsWorkerTracking,
+  type HandTracker,
+  type HandTrackerInput,
+  type RawHand
+} from '../lib/trackers';
+import { createAdaptiveInference } from '../lib/adaptiveInference';
+import { coverTransform, getViewport, videoToScreen } from '../lib/viewport';
+import { createTrackingTelemetry } from '../lib/trackingTelemetry';
+import { createHandRecorder, type HandRecorder, type HandRecording } from '../lib/handRecording';
+import { publishGestureChanges } from '../game/gameplayEvents';
+import { useStore } from '../store/useStore';
 
 const KEYPOINT_NAMES = [
   'wrist',
@@ -15,83 +37,72 @@ const KEYPOINT_NAMES = [
 ];
 
 export const useTensorFlowHandTracking = (stream: MediaStream | null) => {
-  const [model, setModel] = useState<handpose.HandPose | null>(null);
+  const trackerBackend = useStore((state) => state.trackerBackend);
+  const customGestures = useStore((state) => state.customGestures);
+  const [model, setModel] = useState<HandTracker | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [handData, setHandData] = useState<HandData | null>(null);
+  const [hands, setHands] = useState<HandData[]>([]);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const animationFrameRef = useRef<number>(0);
+  const handsRef = useRef<HandData[]>([]);
+  const modelRef = useRef<HandTracker | null>(null);
+  const handFilter = useMemo(() => createHandFilter(), []);
+  const strokeTracker = useMemo(() => createStrokeTracker(), []);
+  const recorderRef = useRef<HandRecorder | null>(null);
+  const replayFrameRef = useRef<number>(0);
+  const isReplayingRef = useRef(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const customClassifierRef = useRef<CustomGestureClassifier | null>(null);
+  const adaptiveInference = useMemo(() => createAdaptiveInference(), []);
+  const telemetry = useMemo(() => createTrackingTelemetry(), []);
+  const framesInFlightRef = useRef(0);
+  const lastFrameSentRef = useRef(0);
+  const frameCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  // Gesture detection based on finger positions
-  const detectGesture = useCallback((landmarks: number[][]): string => {
-    if (!landmarks || landmarks.length === 0) return 'none';
-
-    const thumbTip = landmarks[4];
-    const indexTip = landmarks[8];
-    const middleTip = landmarks[12];
-    const ringTip = landmarks[16];
-    const pinkyTip = landmarks[20];
-
-    // Calculate if fingers are extended
-    const isThumbExtended = thumbTip[1] < landmarks[2][1];
-    const isIndexExtended = indexTip[1] < landmarks[6][1];
-    const isMiddleExtended = middleTip[1] < landmarks[10][1];
-    const isRingExtended = ringTip[1] < landmarks[14][1];
-    const isPinkyExtended = pinkyTip[1] < landmarks[18][1];
-
-    const extendedCount = [
-      isThumbExtended,
-      isIndexExtended,
-      isMiddleExtended,
-      isRingExtended,
-      isPinkyExtended
-    ].filter(Boolean).length;
-
-    // Gesture patterns for spell casting
-    if (!isIndexExtended && !isMiddleExtended && !isRingExtended && !isPinkyExtended) {
-      return 'fist'; // Charging power
-    }
-    
-    if (extendedCount === 5) {
-      return 'palm'; // Release spell
-    }
-    
-    if (isIndexExtended && !isMiddleExtended && !isRingExtended && !isPinkyExtended) {
-      return 'point'; // Fire spell
-    }
-    
-    if (isIndexExtended && isMiddleExtended && !isRingExtended && !isPinkyExtended) {
-      return 'peace'; // Water spell
-    }
-    
-    if (isThumbExtended && isIndexExtended && isPinkyExtended && !isMiddleExtended && !isRingExtended) {
-      return 'rock'; // Lightning spell
-    }
-
-    return 'unknown';
-  }, []);
+  // Rebuild the k-NN classifier when gestures are trained or deleted.
+  // Kept in a ref so the running detection loop picks it up without restarting.
+  useEffect(() => {
+    customClassifierRef.current = customGestures.length > 0
+      ? createCustomGestureClassifier(customGestures)
+      : null;
+  }, [customGestures]);
 
-  // Initialize TensorFlow and load model
+  // Load the selected tracking backend, swapping it out when the store changes.
+  // Inference runs in a worker when the backend and browser allow it, else on the main thread.
   useEffect(() => {
+    let cancelled = false;
+    let tracker = supportsWorkerTracking(trackerBackend)
+      ? createWorkerHandTracker(trackerBackend)
+      : createHandTracker(trackerBackend);
+
     const loadModel = async () => {
       try {
         setIsLoading(true);
-        
-        // Set TensorFlow backend
-        await tf.setBackend('webgl');
-        await tf.ready();
-        
-        // Load the handpose model
-        const loadedModel = await handpose.load({
-          detectionConfidence: 0.8,
-          iouThreshold: 0.3,
-          scoreThreshold: 0.75
-        });
-        
-        setModel(loadedModel);
+        setError(null);
+        setModel(null);
+        modelRef.current = null;
+        adaptiveInference.reset();
+        telemetry.reset();
+
+        try {
+          await tracker.load();
+        } catch (err) {
+          if (!tracker.runsInWorker || cancelled) throw err;
+          console.warn(`Worker hand tracking unavailable, falling back to main thread:`, err);
+          tracker.dispose();
+          tracker = createHandTracker(trackerBackend);
+          await tracker.load();
+        }
+        if (cancelled) return;
+
+        modelRef.current = tracker;
+        setModel(tracker);
         setIsLoading(false);
       } catch (err) {
-        console.error('Failed to load TensorFlow model:', err);
+        if (cancelled) return;
+        console.error(`Failed to load hand tracking backend "${trackerBackend}":`, err);
         setError('Failed to load hand tracking model');
         setIsLoading(false);
       }
@@ -100,11 +111,13 @@ export const useTensorFlowHandTracking = (stream: MediaStream | null) => {
     loadModel();
 
     return () => {
+      cancelled = true;
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
+      tracker.dispose();
     };
-  }, []);
+  }, [trackerBackend, adaptiveInference, telemetry]);
 
   // Use provided stream instead of creating a new one
   const startVideo = useCallback(async (video: HTMLVideoElement) => {
@@ -129,75 +142,209 @@ export const useTensorFlowHandTracking = (stream: MediaStream | null) => {
     }
   }, [stream]);
 
-  // Detect hands in video stream
-  const detectHands = useCallback(async () => {
-    if (!model || !videoRef.current || !videoRef.current.readyState) {
-      animationFrameRef.current = requestAnimationFrame(detectHands);
-      return;
+  // Turn one frame of model output into HandData - shared by live tracking and replay
+  const processFrame = useCallback((
+    predictions: RawHand[],
+    videoWidth: number,
+    videoHeight: number,
+    timestamp: number
+  ) => {
+    // Same cover crop and mirror as the display video, for the current window size
+    const transform = coverTransform(videoWidth, videoHeight, getViewport());
+
+    const detections: UntrackedHand[] = predictions.map(({ handedness, landmarks, score }) => {
+      // Convert landmarks to screen coordinates
+      const keypoints: HandKeypoint[] = landmarks.map((landmark, index) => ({
+        ...videoToScreen(transform, landmark[0], landmark[1], landmark[2]),
+        name: KEYPOINT_NAMES[index]
+      }));
+
+      // Calculate bounding box in screen coordinates
+      const xs = keypoints.map(p => p.x);
+      const ys = keypoints.map(p => p.y);
+
+      // User-trained gestures are matched alongside the built-in ones
+      const customGesture = customClassifierRef.current?.(normalizeHand(keypoints, handedness)) ?? null;
+
+      return {
+        handedness,
+        keypoints,
+        gesture: resolveGesture(classifyGesture(landmarks), customGesture),
+        confidence: score,
+        boundingBox: {
+          topLeft: [Math.min(...xs), Math.min(...ys)],
+          bottomRight: [Math.max(...xs), Math.max(...ys)]
+        },
+        trail: [],
+        rune: null
+      };
+    });
+
+    // Smooth keypoints and debounce gestures before anything downstream sees them,
+    // then match runes against the smoothed index-tip path
+    const tracked = strokeTracker.apply(
+      handFilter.apply(assignTrackIds(handsRef.current, detections), timestamp),
+      timestamp
+    );
+    publishGestureChanges(handsRef.current, tracked);
+    handsRef.current = tracked;
+    telemetry.recordFrame(tracked, timestamp);
+    setHands(tracked);
+  }, [handFilter, strokeTracker, telemetry]);
+
+  // Grab a downscaled frame: a transferable bitmap for the worker, a reused canvas otherwise
+  const captureFrame = useCallback(async (
+    tracker: HandTracker,
+    video: HTMLVideoElement,
+    width: number,
+    height: number
+  ): Promise<HandTrackerInput> => {
+    if (tracker.runsInWorker) {
+      return createImageBitmap(video, { resizeWidth: width, resizeHeight: height, resizeQuality: 'low' });
+    }
+
+    const canvas = frameCanvasRef.current ?? document.createElement('canvas');
+    frameCanvasRef.current = canvas;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
     }
+    canvas.getContext('2d')?.drawImage(video, 0, 0, width, height);
+    return canvas;
+  }, []);
+
+  // Run one inference without blocking the frame loop
+  const runInference = useCallback(async (tracker: HandTracker, video: HTMLVideoElement, inputWidth: number) => {
+    const capturedAt = performance.now();
+    const { videoWidth, videoHeight } = video;
+    const width = Math.min(inputWidth, videoWidth);
+    const height = Math.round((videoHeight * width) / videoWidth);
 
     try {
-      const predictions = await model.estimateHands(videoRef.current);
-      
-      if (predictions.length > 0) {
-        const hand = predictions[0] as HandPoseAnnotation;
-        const landmarks = hand.landmarks;
-        
-        // Get video dimensions
-        const videoWidth = videoRef.current.videoWidth;
-        const videoHeight = videoRef.current.videoHeight;
-        
-        // Get window dimensions
-        const windowWidth = window.innerWidth;
-        const windowHeight = window.innerHeight;
-        
-        // Calculate scale factors
-        const scaleX = windowWidth / videoWidth;
-        const scaleY = windowHeight / videoHeight;
-        
-        // Convert landmarks to screen coordinates with mirroring
-        const keypoints: HandKeypoint[] = landmarks.map((landmark, index) => ({
-          x: windowWidth - (landmark[0] * scaleX), // Mirror horizontally
-          y: landmark[1] * scaleY,
-          z: landmark[2] || 0,
-          name: KEYPOINT_NAMES[index]
-        }));
-
-        // Detect gesture
-        const gesture = detectGesture(landmarks);
-        
-        // Calculate bounding box in screen coordinates
-        const xs = keypoints.map(p => p.x);
-        const ys = keypoints.map(p => p.y);
-        const minX = Math.min(...xs);
-        const maxX = Math.max(...xs);
-        const minY = Math.min(...ys);
-        const maxY = Math.max(...ys);
-
-        setHandData({
-          keypoints,
-          gesture,
-          confidence: hand.handInViewConfidence || 1,
-          boundingBox: {
-            topLeft: [minX, minY],
-            bottomRight: [maxX, maxY]
-          }
-        });
-      } else {
-        setHandData(null);
-      }
+      const frame = await captureFrame(tracker, video, width, height);
+      const result = await tracker.estimate(frame);
+
+      // Dropped as stale, a backend switch happened, or replay took over while this frame was in flight
+      if (!result || modelRef.current !== tracker || isReplayingRef.current) return;
+
+      const latency = performance.now() - capturedAt;
+      adaptiveInference.record(latency);
+      telemetry.recordInference(latency);
+      const predictions = scaleRawHands(result, videoWidth / width);
+      recorderRef.current?.addFrame(predictions, videoWidth, videoHeight, capturedAt);
+      processFrame(predictions, videoWidth, videoHeight, capturedAt);
     } catch (err) {
       console.error('Hand detection error:', err);
     }
+  }, [captureFrame, adaptiveInference, telemetry, processFrame]);
 
+  // Detect hands in video stream. Frames are only sent when the adaptive rate allows and the
+  // tracker isn't backed up - the worker keeps one frame queued, the main thread none.
+  const detectHands = useCallback(() => {
     animationFrameRef.current = requestAnimationFrame(detectHands);
-  }, [model, detectGesture]);
+
+    const video = videoRef.current;
+    if (!model || !video || video.readyState < 2 || !video.videoWidth || isReplayingRef.current) {
+      return;
+    }
+
+    const { inputWidth, intervalMs } = adaptiveInference.settings();
+    const maxInFlight = model.runsInWorker ? 2 : 1;
+    const now = performance.now();
+    if (framesInFlightRef.current >= maxInFlight || now - lastFrameSentRef.current < intervalMs) {
+      return;
+    }
+
+    lastFrameSentRef.current = now;
+    framesInFlightRef.current++;
+    runInference(model, video, inputWidth).finally(() => {
+      framesInFlightRef.current--;
+    });
+  }, [model, adaptiveInference, runInference]);
+
+  // Performance counters for the debug HUD, read on demand so they never cause renders
+  const getTelemetry = useCallback(() => ({
+    ...telemetry.snapshot(),
+    ...adaptiveInference.settings(),
+    backend: modelRef.current?.backend ?? trackerBackend,
+    runsInWorker: modelRef.current?.runsInWorker ?? false
+  }), [telemetry, adaptiveInference, trackerBackend]);
+
+  // Cancel a running replay on unmount
+  useEffect(() => {
+    return () => {
+      if (replayFrameRef.current) {
+        cancelAnimationFrame(replayFrameRef.current);
+      }
+    };
+  }, []);
+
+  // Capture raw model output from live tracking until stopRecording is called
+  const startRecording = useCallback(() => {
+    recorderRef.current = createHandRecorder(trackerBackend);
+    setIsRecording(true);
+  }, [trackerBackend]);
+
+  const stopRecording = useCallback((): HandRecording | null => {
+    const recording = recorderRef.current?.finish() ?? null;
+    recorderRef.current = null;
+    setIsRecording(false);
+    return recording;
+  }, []);
+
+  const stopReplay = useCallback(() => {
+    if (replayFrameRef.current) {
+      cancelAnimationFrame(replayFrameRef.current);
+    }
+    isReplayingRef.current = false;
+    setIsReplaying(false);
+    handFilter.reset();
+    strokeTracker.reset();
+    // Replayed frames carry the recording's own clock, so live and replay samples never share a window
+    telemetry.reset();
+    publishGestureChanges(handsRef.current, []);
+    handsRef.current = [];
+    setHands([]);
+  }, [handFilter, strokeTracker, telemetry]);
+
+  // Feed a recording through processFrame in place of the live model.
+  // Every frame is delivered once, in order, with its recorded timestamp so filtering matches the original run.
+  const startReplay = useCallback((recording: HandRecording) => {
+    stopReplay();
+    isReplayingRef.current = true;
+    setIsReplaying(true);
+
+    const startedAt = performance.now();
+    let index = 0;
+
+    const step = () => {
+      if (index >= recording.frames.length) {
+        stopReplay();
+        return;
+      }
+
+      // Deliver every frame that is due, so a display slower than the recording doesn't fall behind
+      const elapsed = performance.now() - startedAt;
+      while (index < recording.frames.length && recording.frames[index].t <= elapsed) {
+        const frame = recording.frames[index];
+        processFrame(frame.hands, frame.videoWidth, frame.videoHeight, frame.t);
+        index++;
+      }
+
+      replayFrameRef.current = requestAnimationFrame(step);
+    };
+
+    replayFrameRef.current = requestAnimationFrame(step);
+  }, [processFrame, stopReplay]);
 
   // Start detection when video is ready
   const initialize = useCallback(async (video: HTMLVideoElement) => {
     if (!video) return;
     
     await startVideo(video);
+    if (animationFrameRef.current) {
+      cancelAnimationFrame(animationFrameRef.current);
+    }
     detectHands();
   }, [startVideo, detectHands]);
 
@@ -206,19 +353,28 @@ export const useTensorFlowHandTracking = (stream: MediaStream | null) => {
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
+    handFilter.reset();
+    strokeTracker.reset();
     
     // Don't stop the stream as it's managed by the parent component
     if (videoRef.current) {
       videoRef.current.srcObject = null;
     }
-  }, []);
+  }, [handFilter, strokeTracker]);
 
   return {
-    handData,
+    hands,
     isLoading,
     error,
     initialize,
     stop,
-    isModelReady: !!model
+    isModelReady: !!model,
+    getTelemetry,
+    isRecording,
+    startRecording,
+    stopRecording,
+    isReplaying,
+    startReplay,
+    stopReplay
   };
 };
\ No newline at end of file
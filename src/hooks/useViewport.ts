@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { getViewport, type Viewport } from '../lib/viewport';
+
+// Live viewport size and device pixel ratio
+export const useViewport = (): Viewport => {
+  const [viewport, setViewport] = useState<Viewport>(getViewport);
+
+  useEffect(() => {
+    const update = () => setViewport(getViewport());
+
+    // Moving the window between monitors changes DPR without a resize event
+    let dprQuery: MediaQueryList | null = null;
+    const watchDpr = () => {
+      dprQuery?.removeEventListener('change', handleDprChange);
+      dprQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+      dprQuery.addEventListener('change', handleDprChange);
+    };
+    const handleDprChange = () => {
+      update();
+      watchDpr();
+    };
+
+    watchDpr();
+    window.addEventListener('resize', update);
+
+    return () => {
+      window.removeEventListener('resize', update);
+      dprQuery?.removeEventListener('change', handleDprChange);
+    };
+  }, []);
+
+  return viewport;
+};
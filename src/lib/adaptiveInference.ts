@@ -0,0 +1,64 @@
+import { envNumber } from './env';
+
+export interface AdaptiveInferenceConfig {
+  budgetMs: number; // Target capture → result latency
+  minInputWidth: number;
+  maxInputWidth: number;
+  widthStep: number;
+  minIntervalMs: number; // Fastest inference rate (1000 / max FPS)
+  maxIntervalMs: number; // Slowest rate we back off to once resolution is at its floor
+  adjustEvery: number; // Samples between adjustments, so changes settle before the next one
+}
+
+// Tunable per deployment through VITE_* variables (see .env.example)
+export const DEFAULT_ADAPTIVE_INFERENCE_CONFIG: AdaptiveInferenceConfig = {
+  budgetMs: envNumber(import.meta.env.VITE_INFERENCE_BUDGET_MS, 45),
+  minInputWidth: 256,
+  maxInputWidth: 640,
+  widthStep: 64,
+  minIntervalMs: 1000 / envNumber(import.meta.env.VITE_INFERENCE_MAX_FPS, 30),
+  maxIntervalMs: 1000 / 8,
+  adjustEvery: 10
+};
+
+// Trades input resolution first, then inference rate, to keep latency inside the budget.
+// Recovers in the opposite order once there is headroom.
+export const createAdaptiveInference = (config: AdaptiveInferenceConfig = DEFAULT_ADAPTIVE_INFERENCE_CONFIG) => {
+  let inputWidth = config.maxInputWidth;
+  let intervalMs = config.minIntervalMs;
+  let averageLatency = 0;
+  let samples = 0;
+
+  const record = (latencyMs: number) => {
+    averageLatency = samples === 0 ? latencyMs : averageLatency * 0.8 + latencyMs * 0.2;
+    samples++;
+    if (samples % config.adjustEvery !== 0) return;
+
+    if (averageLatency > config.budgetMs) {
+      if (inputWidth > config.minInputWidth) {
+        inputWidth = Math.max(config.minInputWidth, inputWidth - config.widthStep);
+      } else {
+        intervalMs = Math.min(config.maxIntervalMs, intervalMs * 1.25);
+      }
+    } else if (averageLatency < config.budgetMs * 0.6) {
+      if (intervalMs > config.minIntervalMs) {
+        intervalMs = Math.max(config.minIntervalMs, intervalMs / 1.25);
+      } else if (inputWidth < config.maxInputWidth) {
+        inputWidth = Math.min(config.maxInputWidth, inputWidth + config.widthStep);
+      }
+    }
+  };
+
+  const settings = () => ({ inputWidth, intervalMs, averageLatency });
+
+  const reset = () => {
+    inputWidth = config.maxInputWidth;
+    intervalMs = config.minIntervalMs;
+    averageLatency = 0;
+    samples = 0;
+  };
+
+  return { record, settings, reset };
+};
+
+export type AdaptiveInference = ReturnType<typeof createAdaptiveInference>;
@@ -0,0 +1,83 @@
+import type { Handedness, HandKeypoint } from '../types/hand';
+import { STORES, getAll, put, remove } from './db';
+
+export interface CustomGesture {
+  id: string;
+  name: string;
+  samples: number[][]; // Normalized landmark vectors (21 × [x, y, z] flattened)
+  spellId: string | null; // Spell this gesture casts, if bound
+  createdAt: number;
+}
+
+// Built-in labels that custom gestures may not reuse
+export const RESERVED_GESTURE_NAMES = ['fist', 'palm', 'point', 'peace', 'rock', 'shaka', 'unknown', 'none'];
+
+// Charge and release must stay predictable, so custom gestures never override these
+const CONTROL_GESTURES = ['fist', 'palm'];
+
+const K_NEIGHBOURS = 5;
+// Mean per-landmark distance, in palm lengths, beyond which a sample is not a match
+const MATCH_DISTANCE = 0.25;
+
+// Translate to the wrist, scale by palm length and mirror left hands onto right ones,
+// so samples compare equal regardless of where the hand is, how close it is, or which hand it is
+export const normalizeHand = (keypoints: HandKeypoint[], handedness: Handedness): number[] => {
+  const wrist = keypoints[0];
+  const palmSize = Math.hypot(
+    keypoints[9].x - wrist.x,
+    keypoints[9].y - wrist.y,
+    keypoints[9].z - wrist.z
+  ) || 1;
+  const mirror = handedness === 'Left' ? -1 : 1;
+
+  return keypoints.flatMap(point => [
+    ((point.x - wrist.x) / palmSize) * mirror,
+    (point.y - wrist.y) / palmSize,
+    (point.z - wrist.z) / palmSize
+  ]);
+};
+
+const meanLandmarkDistance = (a: number[], b: number[]) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i += 3) {
+    total += Math.hypot(a[i] - b[i], a[i + 1] - b[i + 1], a[i + 2] - b[i + 2]);
+  }
+  return total / (a.length / 3);
+};
+
+// k-nearest-neighbour vote over every stored sample
+export const createCustomGestureClassifier = (gestures: CustomGesture[]) => {
+  const samples = gestures.flatMap(gesture =>
+    gesture.samples.map(vector => ({ name: gesture.name, vector }))
+  );
+
+  return (vector: number[]): string | null => {
+    if (samples.length === 0) return null;
+
+    const nearest = samples
+      .map(sample => ({ name: sample.name, distance: meanLandmarkDistance(vector, sample.vector) }))
+      .filter(sample => sample.distance <= MATCH_DISTANCE)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, K_NEIGHBOURS);
+    if (nearest.length === 0) return null;
+
+    const votes = new Map<string, number>();
+    nearest.forEach(sample => votes.set(sample.name, (votes.get(sample.name) ?? 0) + 1));
+    const [name, count] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0];
+
+    // Needs a majority of the neighbours that could vote
+    return count > nearest.length / 2 ? name : null;
+  };
+};
+
+export type CustomGestureClassifier = ReturnType<typeof createCustomGestureClassifier>;
+
+// Merge a custom match with the built-in label
+export const resolveGesture = (builtIn: string, custom: string | null) =>
+  custom && !CONTROL_GESTURES.includes(builtIn) ? custom : builtIn;
+
+export const loadCustomGestures = () => getAll<CustomGesture>(STORES.customGestures);
+
+export const saveCustomGesture = (gesture: CustomGesture) => put(STORES.customGestures, gesture);
+
+export const deleteCustomGesture = (id: string) => remove(STORES.customGestures, id);
@@ -0,0 +1,13 @@
+// Revoking the blob URL right after click() can cancel the download in some browsers
+const REVOKE_DELAY_MS = 1000;
+
+// Save a value as a JSON file through a temporary link; `space` pretty-prints like JSON.stringify
+export const downloadJson = (data: unknown, fileName: string, space?: number) => {
+  const blob = new Blob([JSON.stringify(data, null, space)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
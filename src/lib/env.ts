@@ -0,0 +1,5 @@
+// Read a numeric VITE_* variable, falling back when it is unset or not a number
+export const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
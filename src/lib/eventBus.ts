@@ -0,0 +1,76 @@
+// One event as delivered to catch-all listeners: the name plus its payload
+export type BusEvent<Events extends object> = {
+  [K in keyof Events]: { type: K; payload: Events[K] };
+}[keyof Events];
+
+export type LoggedEvent<Events extends object> = BusEvent<Events> & {
+  id: number; // Increases with every logged event
+  at: number;
+};
+
+type Listener<T> = (payload: T) => void;
+
+interface EventBusOptions<Events extends object> {
+  logSize?: number;
+  unlogged?: Array<keyof Events>; // Too frequent to be useful in the log
+}
+
+const DEFAULT_LOG_SIZE = 50;
+
+// A throwing listener shouldn't stop the others or the loop that emitted
+const notify = <T>(listener: Listener<T>, payload: T) => {
+  try {
+    listener(payload);
+  } catch (err) {
+    console.error('Event listener failed:', err);
+  }
+};
+
+// Typed publish/subscribe keyed by event name, keeping the latest events for debugging
+export const createEventBus = <Events extends object>({
+  logSize = DEFAULT_LOG_SIZE,
+  unlogged = []
+}: EventBusOptions<Events> = {}) => {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>();
+  const anyListeners = new Set<Listener<BusEvent<Events>>>();
+  const history: Array<LoggedEvent<Events>> = [];
+  let nextLogId = 1;
+
+  const off = <K extends keyof Events>(type: K, listener: Listener<Events[K]>) => {
+    listeners.get(type)?.delete(listener);
+  };
+
+  // Returns the matching unsubscribe
+  const on = <K extends keyof Events>(type: K, listener: Listener<Events[K]>) => {
+    const forType = listeners.get(type) ?? new Set();
+    forType.add(listener);
+    listeners.set(type, forType);
+    return () => off(type, listener);
+  };
+
+  const onAny = (listener: Listener<BusEvent<Events>>) => {
+    anyListeners.add(listener);
+    return () => {
+      anyListeners.delete(listener);
+    };
+  };
+
+  const emit = <K extends keyof Events>(type: K, payload: Events[K]) => {
+    const event = { type, payload } as BusEvent<Events>;
+    if (!unlogged.includes(type)) {
+      history.push({ ...event, id: nextLogId++, at: Date.now() });
+      if (history.length > logSize) history.shift();
+    }
+    listeners.get(type)?.forEach(listener => notify(listener as Listener<Events[K]>, payload));
+    anyListeners.forEach(listener => notify(listener, event));
+  };
+
+  // Oldest first
+  const log = () => [...history];
+
+  const clearLog = () => {
+    history.length = 0;
+  };
+
+  return { emit, on, off, onAny, log, clearLog };
+};
@@ -0,0 +1,107 @@
+// Rotation-invariant gesture classification from 3D landmarks.
+// Only joint angles and distances relative to the palm are used, so the result is the same
+// for any in-plane rotation, for tilted hands and for mirrored (left vs right) hands.
+
+type Vec3 = [number, number, number];
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+export type FingerStates = Record<FingerName, boolean>;
+
+// Landmark indices per finger: [base, joint, joint, tip]
+const FINGER_JOINTS: Record<FingerName, [number, number, number, number]> = {
+  thumb: [1, 2, 3, 4],
+  index: [5, 6, 7, 8],
+  middle: [9, 10, 11, 12],
+  ring: [13, 14, 15, 16],
+  pinky: [17, 18, 19, 20]
+};
+
+// Total bend (degrees) from the wrist through a finger's joints below which it counts as extended
+const FINGER_CURL_THRESHOLD = 90;
+// Thumb bends less overall, so it also has to reach away from the palm
+const THUMB_CURL_THRESHOLD = 60;
+const THUMB_REACH_THRESHOLD = 0.9;
+
+const toVec = (point: number[]): Vec3 => [point[0], point[1], point[2] ?? 0];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+const length = (v: Vec3) => Math.hypot(v[0], v[1], v[2]);
+
+const distance = (a: Vec3, b: Vec3) => length(sub(a, b));
+
+// Angle between two vectors in degrees (0 = same direction)
+const angleBetween = (a: Vec3, b: Vec3) => {
+  const denom = length(a) * length(b);
+  if (denom === 0) return 0;
+  const cos = (a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) / denom;
+  return (Math.acos(Math.min(1, Math.max(-1, cos))) * 180) / Math.PI;
+};
+
+// Sum of the bends along a chain of points, e.g. wrist → mcp → pip → dip → tip
+const chainCurl = (points: Vec3[]) => {
+  let curl = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    curl += angleBetween(sub(points[i], points[i - 1]), sub(points[i + 1], points[i]));
+  }
+  return curl;
+};
+
+export const getFingerStates = (landmarks: number[][]): FingerStates => {
+  const points = landmarks.map(toVec);
+  const wrist = points[0];
+  // Palm length (wrist → middle MCP) normalizes distances for hand size and camera distance
+  const palmSize = distance(wrist, points[9]) || 1;
+
+  const isFingerExtended = (finger: Exclude<FingerName, 'thumb'>) => {
+    const chain = [wrist, ...FINGER_JOINTS[finger].map(i => points[i])];
+    return chainCurl(chain) < FINGER_CURL_THRESHOLD;
+  };
+
+  const [thumbCmc, thumbMcp, thumbIp, thumbTip] = FINGER_JOINTS.thumb.map(i => points[i]);
+  const thumbCurl = chainCurl([thumbCmc, thumbMcp, thumbIp, thumbTip]);
+  const thumbReach = distance(thumbTip, points[17]) / palmSize;
+
+  return {
+    thumb: thumbCurl < THUMB_CURL_THRESHOLD && thumbReach > THUMB_REACH_THRESHOLD,
+    index: isFingerExtended('index'),
+    middle: isFingerExtended('middle'),
+    ring: isFingerExtended('ring'),
+    pinky: isFingerExtended('pinky')
+  };
+};
+
+export const classifyGesture = (landmarks: number[][]): string => {
+  if (!landmarks || landmarks.length < 21) return 'none';
+
+  const { thumb, index, middle, ring, pinky } = getFingerStates(landmarks);
+  const extendedCount = [thumb, index, middle, ring, pinky].filter(Boolean).length;
+
+  // Gesture patterns for spell casting
+  if (!index && !middle && !ring && !pinky) {
+    return 'fist'; // Charging power
+  }
+
+  if (extendedCount === 5) {
+    return 'palm'; // Release spell
+  }
+
+  if (index && !middle && !ring && !pinky) {
+    return 'point'; // Fire spell
+  }
+
+  if (index && middle && !ring && !pinky) {
+    return 'peace'; // Water spell
+  }
+
+  if (thumb && index && pinky && !middle && !ring) {
+    return 'rock'; // Lightning spell
+  }
+
+  if (thumb && pinky && !index && !middle && !ring) {
+    return 'shaka'; // Wind spell
+  }
+
+  return 'unknown';
+};
@@ -0,0 +1,145 @@
+import type { HandData, HandKeypoint } from '../types/hand';
+import { envNumber } from './env';
+
+export interface HandFilterConfig {
+  minCutoff: number; // Hz - lower values smooth more while the hand is still
+  beta: number; // Speed coefficient - higher values reduce lag during fast moves
+  derivateCutoff: number; // Hz - cutoff used when estimating speed
+  gestureHoldMs: number; // How long a new gesture must persist before it counts
+  unknownHoldMs: number; // Longer hold before dropping to 'unknown'/'none' (hysteresis)
+}
+
+// Tunable per deployment through VITE_* variables (see .env.example)
+export const DEFAULT_HAND_FILTER_CONFIG: HandFilterConfig = {
+  minCutoff: envNumber(import.meta.env.VITE_FILTER_MIN_CUTOFF, 1.0),
+  beta: envNumber(import.meta.env.VITE_FILTER_BETA, 0.007),
+  derivateCutoff: envNumber(import.meta.env.VITE_FILTER_DERIVATE_CUTOFF, 1.0),
+  gestureHoldMs: envNumber(import.meta.env.VITE_GESTURE_HOLD_MS, 120),
+  unknownHoldMs: envNumber(import.meta.env.VITE_GESTURE_UNKNOWN_HOLD_MS, 300)
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+// One-Euro filter (Casiez et al.) - an adaptive low-pass filter for a single value
+export const createOneEuroFilter = (config: HandFilterConfig) => {
+  let lastValue: number | null = null;
+  let lastDerivate = 0;
+  let lastTime = 0;
+
+  return (value: number, timestamp: number) => {
+    if (lastValue === null) {
+      lastValue = value;
+      lastTime = timestamp;
+      return value;
+    }
+
+    const dt = Math.max((timestamp - lastTime) / 1000, 1e-3);
+    const derivate = (value - lastValue) / dt;
+    const derivateAlpha = smoothingFactor(config.derivateCutoff, dt);
+    lastDerivate = lastDerivate + derivateAlpha * (derivate - lastDerivate);
+
+    const cutoff = config.minCutoff + config.beta * Math.abs(lastDerivate);
+    const alpha = smoothingFactor(cutoff, dt);
+    lastValue = lastValue + alpha * (value - lastValue);
+    lastTime = timestamp;
+
+    return lastValue;
+  };
+};
+
+// Only lets a gesture through once it has been seen continuously for the hold time
+export const createGestureDebouncer = (config: HandFilterConfig) => {
+  let stable = 'none';
+  let candidate = 'none';
+  let candidateSince = 0;
+
+  return (gesture: string, timestamp: number) => {
+    if (gesture === stable) {
+      candidate = gesture;
+      return stable;
+    }
+
+    if (gesture !== candidate) {
+      candidate = gesture;
+      candidateSince = timestamp;
+    }
+
+    const isNoGesture = gesture === 'unknown' || gesture === 'none';
+    const holdMs = isNoGesture ? config.unknownHoldMs : config.gestureHoldMs;
+    if (timestamp - candidateSince >= holdMs) {
+      stable = gesture;
+    }
+
+    return stable;
+  };
+};
+
+interface HandFilterState {
+  keypointFilters: Array<{
+    x: ReturnType<typeof createOneEuroFilter>;
+    y: ReturnType<typeof createOneEuroFilter>;
+    z: ReturnType<typeof createOneEuroFilter>;
+  }>;
+  gesture: ReturnType<typeof createGestureDebouncer>;
+}
+
+// Smooths keypoints and debounces gestures per track ID, between model output and HandData
+export const createHandFilter = (config: HandFilterConfig = DEFAULT_HAND_FILTER_CONFIG) => {
+  let states = new Map<number, HandFilterState>();
+
+  const createState = (keypointCount: number): HandFilterState => ({
+    keypointFilters: Array.from({ length: keypointCount }, () => ({
+      x: createOneEuroFilter(config),
+      y: createOneEuroFilter(config),
+      z: createOneEuroFilter(config)
+    })),
+    gesture: createGestureDebouncer(config)
+  });
+
+  const apply = (hands: HandData[], timestamp: number): HandData[] => {
+    const nextStates = new Map<number, HandFilterState>();
+
+    const filtered = hands.map(hand => {
+      const state = states.get(hand.id) ?? createState(hand.keypoints.length);
+      nextStates.set(hand.id, state);
+
+      const keypoints: HandKeypoint[] = hand.keypoints.map((point, index) => {
+        const filters = state.keypointFilters[index];
+        return {
+          ...point,
+          x: filters.x(point.x, timestamp),
+          y: filters.y(point.y, timestamp),
+          z: filters.z(point.z, timestamp)
+        };
+      });
+
+      const xs = keypoints.map(p => p.x);
+      const ys = keypoints.map(p => p.y);
+
+      return {
+        ...hand,
+        keypoints,
+        gesture: state.gesture(hand.gesture, timestamp),
+        boundingBox: {
+          topLeft: [Math.min(...xs), Math.min(...ys)] as [number, number],
+          bottomRight: [Math.max(...xs), Math.max(...ys)] as [number, number]
+        }
+      };
+    });
+
+    // Drop filter state for hands that are no longer tracked
+    states = nextStates;
+    return filtered;
+  };
+
+  const reset = () => {
+    states = new Map();
+  };
+
+  return { apply, reset };
+};
+
+export type HandFilter = ReturnType<typeof createHandFilter>;
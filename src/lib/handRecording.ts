@@ -0,0 +1,107 @@
+import type { RawHand, TrackerBackend } from './trackers';
+import { downloadJson } from './download';
+
+export const HAND_RECORDING_VERSION = 2;
+
+// One model output, exactly as the tracker returned it
+export interface RecordedFrame {
+  t: number; // ms since the recording started
+  videoWidth: number;
+  videoHeight: number;
+  hands: RawHand[];
+}
+
+export interface HandRecording {
+  version: number;
+  backend: TrackerBackend;
+  createdAt: string;
+  frames: RecordedFrame[];
+}
+
+export const createHandRecorder = (backend: TrackerBackend) => {
+  const startedAt = performance.now();
+  const frames: RecordedFrame[] = [];
+
+  const addFrame = (hands: RawHand[], videoWidth: number, videoHeight: number, timestamp: number) => {
+    frames.push({
+      t: Math.round((timestamp - startedAt) * 1000) / 1000,
+      videoWidth,
+      videoHeight,
+      hands: hands.map(hand => ({
+        handedness: hand.handedness,
+        landmarks: hand.landmarks.map(point => [...point]),
+        score: hand.score
+      }))
+    });
+  };
+
+  const finish = (): HandRecording => ({
+    version: HAND_RECORDING_VERSION,
+    backend,
+    createdAt: new Date().toISOString(),
+    frames
+  });
+
+  return { addFrame, finish };
+};
+
+export type HandRecorder = ReturnType<typeof createHandRecorder>;
+
+export const downloadRecording = (recording: HandRecording) =>
+  downloadJson(recording, `magic-hands-${recording.createdAt.replace(/[:.]/g, '-')}.json`);
+
+const isLandmark = (value: unknown) =>
+  Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+// v2 moved MediaPipe depth from meters to the image's pixel scale. handpose always reported pixels, so its
+// v1 recordings carry over unchanged; MediaPipe ones lack the 3D keypoints needed to rescale their depth.
+const upgradeRecording = (recording: Partial<HandRecording>): Partial<HandRecording> => {
+  if (recording.version !== 1) return recording;
+  if (recording.backend !== 'handpose') {
+    throw new Error(
+      'v1 MediaPipe 녹화는 깊이(z)가 미터 단위로 저장되어 있어 현재 제스처 인식에 쓸 수 없습니다. 다시 녹화해 주세요.'
+    );
+  }
+  return { ...recording, version: HAND_RECORDING_VERSION };
+};
+
+// Validate an uploaded recording so replay never trips over a malformed file
+export const parseRecording = (json: string): HandRecording => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('녹화 파일이 올바른 JSON이 아닙니다.');
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error('녹화 파일의 형식이 잘못되었습니다.');
+  }
+
+  const recording = upgradeRecording(data as Partial<HandRecording>);
+  if (recording.version !== HAND_RECORDING_VERSION) {
+    throw new Error(`지원하지 않는 녹화 버전입니다 (expected v${HAND_RECORDING_VERSION}).`);
+  }
+  if (!Array.isArray(recording.frames) || recording.frames.length === 0) {
+    throw new Error('녹화 파일에 프레임이 없습니다.');
+  }
+
+  recording.frames.forEach((frame, index) => {
+    const valid =
+      typeof frame.t === 'number' &&
+      frame.videoWidth > 0 &&
+      frame.videoHeight > 0 &&
+      Array.isArray(frame.hands) &&
+      frame.hands.every(hand =>
+        (hand.handedness === 'Left' || hand.handedness === 'Right') &&
+        typeof hand.score === 'number' &&
+        Array.isArray(hand.landmarks) &&
+        hand.landmarks.length === 21 &&
+        hand.landmarks.every(isLandmark)
+      );
+    if (!valid) {
+      throw new Error(`녹화 프레임 #${index}의 형식이 잘못되었습니다.`);
+    }
+  });
+
+  return recording as HandRecording;
+};
@@ -0,0 +1,43 @@
+import type { HandData } from '../types/hand';
+
+export type UntrackedHand = Omit<HandData, 'id'>;
+
+// Max wrist travel in screen pixels between two frames to keep the same track
+const MAX_TRACK_DISTANCE = 250;
+
+let nextTrackId = 1;
+
+// Match new detections to the previous frame's hands so each hand keeps its ID.
+// Pairs are claimed cheapest-first; a handedness mismatch counts as extra distance
+// so crossed hands don't swap IDs when the model flips its label for a frame.
+export const assignTrackIds = (previous: HandData[], detections: UntrackedHand[]): HandData[] => {
+  const pairs: Array<{ track: number; detection: number; cost: number }> = [];
+
+  previous.forEach((track, t) => {
+    detections.forEach((hand, d) => {
+      const distance = Math.hypot(
+        track.keypoints[0].x - hand.keypoints[0].x,
+        track.keypoints[0].y - hand.keypoints[0].y
+      );
+      const cost = track.handedness === hand.handedness ? distance : distance + MAX_TRACK_DISTANCE / 2;
+      if (cost <= MAX_TRACK_DISTANCE) {
+        pairs.push({ track: t, detection: d, cost });
+      }
+    });
+  });
+
+  pairs.sort((a, b) => a.cost - b.cost);
+
+  const ids = new Array<number | undefined>(detections.length);
+  const claimedTracks = new Set<number>();
+  for (const pair of pairs) {
+    if (claimedTracks.has(pair.track) || ids[pair.detection] !== undefined) continue;
+    claimedTracks.add(pair.track);
+    ids[pair.detection] = previous[pair.track].id;
+  }
+
+  return detections.map((hand, d) => ({
+    ...hand,
+    id: ids[d] ?? nextTrackId++
+  }));
+};
@@ -0,0 +1,126 @@
+import { STORES, getAll, put, putAll } from './db';
+import { downloadJson } from './download';
+import { checkFields, isObject, nonEmptyString, nonNegativeInteger, numberAtLeast, oneOf, type Schema } from '../game/schema';
+import { GAME_MODES, type GameModeId, type GameResult } from '../game/modes';
+
+export interface LeaderboardEntry {
+  id: string;
+  mode: GameModeId;
+  score: number;
+  hits: number;
+  maxCombo: number;
+  durationMs: number;
+  playerName: string;
+  date: string; // ISO time the run finished
+}
+
+// Bump whenever the export file changes shape
+const EXPORT_VERSION = 1;
+
+export const PLAYER_NAME_MAX_LENGTH = 16;
+const PLAYER_NAME_KEY = 'magic-hands:player-name';
+
+export type TimeRange = 'today' | 'week' | 'month' | 'all';
+
+export const TIME_RANGES: Array<{ id: TimeRange; name: string }> = [
+  { id: 'today', name: '오늘' },
+  { id: 'week', name: '최근 7일' },
+  { id: 'month', name: '최근 30일' },
+  { id: 'all', name: '전체' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Earliest date a range still includes; "today" starts at local midnight
+const rangeStart = (range: TimeRange, now: number) => {
+  switch (range) {
+    case 'today':
+      return new Date(now).setHours(0, 0, 0, 0);
+    case 'week':
+      return now - 7 * DAY_MS;
+    case 'month':
+      return now - 30 * DAY_MS;
+    case 'all':
+      return -Infinity;
+  }
+};
+
+const ENTRY_SCHEMA: Schema<LeaderboardEntry> = {
+  id: nonEmptyString,
+  mode: oneOf(GAME_MODES.map(mode => mode.id)),
+  score: numberAtLeast(0),
+  hits: nonNegativeInteger,
+  maxCombo: nonNegativeInteger,
+  durationMs: numberAtLeast(0),
+  playerName: nonEmptyString,
+  date: value => (typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : 'ISO 날짜 문자열이어야 합니다')
+};
+
+export const entryFromResult = (result: GameResult, playerName: string): LeaderboardEntry => ({
+  id: crypto.randomUUID(),
+  mode: result.mode,
+  score: result.score,
+  hits: result.hits,
+  maxCombo: result.maxCombo,
+  durationMs: result.durationMs,
+  playerName,
+  date: result.finishedAt
+});
+
+// Best first; ties go to whoever got there earlier
+export const rankEntries = (entries: LeaderboardEntry[], mode: GameModeId, range: TimeRange, now = Date.now()) => {
+  const start = rangeStart(range, now);
+  return entries
+    .filter(entry => entry.mode === mode && Date.parse(entry.date) >= start)
+    .sort((a, b) => b.score - a.score || Date.parse(a.date) - Date.parse(b.date));
+};
+
+export const loadLeaderboard = () => getAll<LeaderboardEntry>(STORES.leaderboard);
+
+export const saveLeaderboardEntry = (entry: LeaderboardEntry) => put(STORES.leaderboard, entry);
+
+export const parseLeaderboard = (json: string): LeaderboardEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('순위표 파일이 올바른 JSON이 아닙니다.');
+  }
+  if (!isObject(data) || !Array.isArray(data.entries)) {
+    throw new Error('순위표 데이터에 "entries" 배열이 없습니다.');
+  }
+  if (data.version !== EXPORT_VERSION) {
+    throw new Error(`지원하지 않는 순위표 버전입니다 (v${String(data.version)}, 지원: v${EXPORT_VERSION}).`);
+  }
+
+  const errors = data.entries.flatMap((entry: unknown, index) =>
+    isObject(entry) ? checkFields(entry, ENTRY_SCHEMA, `entries[${index}]`) : [`entries[${index}]: 객체여야 합니다`]
+  );
+  if (errors.length > 0) {
+    throw new Error(`순위표 형식이 잘못되었습니다:\n${errors.join('\n')}`);
+  }
+  return data.entries as LeaderboardEntry[];
+};
+
+// Entries keep their ids, so importing the same file twice doesn't duplicate anything
+export const importLeaderboard = async (json: string) => {
+  const entries = parseLeaderboard(json);
+  await putAll(STORES.leaderboard, entries);
+  return entries.length;
+};
+
+export const downloadLeaderboard = (entries: LeaderboardEntry[]) => {
+  const exportedAt = new Date().toISOString();
+  downloadJson(
+    { version: EXPORT_VERSION, exportedAt, entries },
+    `magic-hands-leaderboard-${exportedAt.replace(/[:.]/g, '-')}.json`,
+    2
+  );
+};
+
+// The last name typed on this machine, to prefill the next results screen
+export const readPlayerName = () => localStorage.getItem(PLAYER_NAME_KEY) ?? '';
+
+export const writePlayerName = (name: string) => {
+  localStorage.setItem(PLAYER_NAME_KEY, name);
+};
@@ -0,0 +1,120 @@
+import { MAX_MANA } from '../game/constants';
+import { checkFields, isNumber, isObject, nonEmptyString, nonNegativeInteger, numberAtLeast, type Schema } from '../game/schema';
+import type { TalentRanks } from '../game/talents';
+import { downloadJson } from './download';
+
+// Bump whenever SaveData changes shape, and add a migration from the previous version below
+export const SAVE_VERSION = 2;
+
+export interface SaveData {
+  version: number;
+  level: number;
+  experience: number;
+  mana: number;
+  talents: TalentRanks;
+  savedAt: string;
+}
+
+export type Progression = Omit<SaveData, 'version' | 'savedAt'>;
+
+export const SAVE_SLOTS = [1, 2, 3];
+
+const slotKey = (slot: number) => `magic-hands:save:${slot}`;
+const ACTIVE_SLOT_KEY = 'magic-hands:active-slot';
+// Onboarding belongs to the browser, not to a slot
+const TUTORIAL_DONE_KEY = 'magic-hands:tutorial-done';
+
+type RawSave = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version-n save to version n + 1
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2 added the talent tree; older saves get their points back unspent
+  1: save => ({ ...save, talents: {} })
+};
+
+const saveSchema: Schema<SaveData> = {
+  version: value => (value === SAVE_VERSION ? null : `${SAVE_VERSION}이어야 합니다`),
+  level: value => (Number.isInteger(value) && (value as number) >= 1 ? null : '1 이상의 정수여야 합니다'),
+  experience: numberAtLeast(0),
+  mana: value => (isNumber(value) && value >= 0 && value <= MAX_MANA ? null : `0~${MAX_MANA} 사이의 숫자여야 합니다`),
+  talents: value =>
+    isObject(value) && Object.values(value).every(rank => !nonNegativeInteger(rank))
+      ? null
+      : '특성 id별 랭크(0 이상의 정수) 객체여야 합니다',
+  savedAt: nonEmptyString
+};
+
+export const newProgression = (): Progression => ({
+  level: 1,
+  experience: 0,
+  mana: MAX_MANA,
+  talents: {}
+});
+
+// Bring any older save up to the current version, then validate it
+export const migrateSave = (data: unknown): SaveData => {
+  if (!isObject(data) || nonNegativeInteger(data.version)) {
+    throw new Error('세이브 데이터에 버전 정보가 없습니다.');
+  }
+  const savedVersion = data.version as number;
+  if (savedVersion > SAVE_VERSION) {
+    throw new Error(`더 최신 버전의 세이브입니다 (v${savedVersion}, 지원: v${SAVE_VERSION}).`);
+  }
+
+  let save = data;
+  for (let version = savedVersion; version < SAVE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`v${version} 세이브를 변환할 수 없습니다.`);
+    save = { ...migrate(save), version: version + 1 };
+  }
+
+  const errors = checkFields(save, saveSchema, 'save');
+  if (errors.length > 0) {
+    throw new Error(`세이브 형식이 잘못되었습니다:\n${errors.join('\n')}`);
+  }
+  return save as unknown as SaveData;
+};
+
+export const parseSave = (json: string): SaveData => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('세이브 파일이 올바른 JSON이 아닙니다.');
+  }
+  return migrateSave(data);
+};
+
+export const createSave = (progression: Progression): SaveData => ({
+  version: SAVE_VERSION,
+  ...progression,
+  savedAt: new Date().toISOString()
+});
+
+// Null for an empty slot. Old saves are migrated on read and written back on the next save.
+export const readSlot = (slot: number): SaveData | null => {
+  const json = localStorage.getItem(slotKey(slot));
+  return json === null ? null : parseSave(json);
+};
+
+export const writeSlot = (slot: number, save: SaveData) => {
+  localStorage.setItem(slotKey(slot), JSON.stringify(save));
+};
+
+export const readActiveSlot = () => {
+  const slot = Number(localStorage.getItem(ACTIVE_SLOT_KEY));
+  return SAVE_SLOTS.includes(slot) ? slot : SAVE_SLOTS[0];
+};
+
+export const writeActiveSlot = (slot: number) => {
+  localStorage.setItem(ACTIVE_SLOT_KEY, String(slot));
+};
+
+export const readTutorialDone = () => localStorage.getItem(TUTORIAL_DONE_KEY) === 'true';
+
+export const writeTutorialDone = () => {
+  localStorage.setItem(TUTORIAL_DONE_KEY, 'true');
+};
+
+export const downloadSave = (slot: number, save: SaveData) =>
+  downloadJson(save, `magic-hands-slot${slot}-${save.savedAt.replace(/[:.]/g, '-')}.json`, 2);
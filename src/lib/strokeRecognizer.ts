@@ -0,0 +1,235 @@
+import type { HandData, RecognizedRune } from '../types/hand';
+
+// $1 unistroke recognizer (Wobbrock et al.) for index-tip paths.
+// Two deviations from the paper: strokes are scaled uniformly so straight swipes survive
+// normalization, and rotation is only searched within ±30° so a swipe and a vertical
+// line stay different gestures. Templates cover each drawing direction separately.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface StrokeTemplate {
+  name: string;
+  points: Point[];
+}
+
+const NUM_POINTS = 64;
+const SQUARE_SIZE = 250;
+const HALF_DIAGONAL = 0.5 * Math.sqrt(2 * SQUARE_SIZE * SQUARE_SIZE);
+const ANGLE_RANGE = (30 * Math.PI) / 180;
+const ANGLE_PRECISION = (2 * Math.PI) / 180;
+const PHI = 0.5 * (-1 + Math.sqrt(5));
+
+const MIN_SCORE = 0.8;
+// Ignore hand jitter - strokes must travel at least this far on screen
+const MIN_STROKE_LENGTH = 200;
+const MIN_STROKE_SIZE = 100;
+
+// Index-tip history kept per hand, and the trailing windows tried when matching
+const STROKE_HISTORY_MS = 2000;
+const STROKE_WINDOWS_MS = [600, 1000, 1500, 2000];
+
+const pathLength = (points: Point[]) => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+};
+
+const resample = (input: Point[], n: number): Point[] => {
+  const points = [...input];
+  const interval = pathLength(points) / (n - 1);
+  const resampled: Point[] = [points[0]];
+  let accumulated = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const segment = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    if (accumulated + segment >= interval && segment > 0) {
+      const t = (interval - accumulated) / segment;
+      const point = {
+        x: points[i - 1].x + t * (points[i].x - points[i - 1].x),
+        y: points[i - 1].y + t * (points[i].y - points[i - 1].y)
+      };
+      resampled.push(point);
+      points.splice(i, 0, point); // The new point starts the next segment
+      accumulated = 0;
+    } else {
+      accumulated += segment;
+    }
+  }
+
+  // Rounding can leave us one short
+  while (resampled.length < n) {
+    resampled.push(points[points.length - 1]);
+  }
+  return resampled.slice(0, n);
+};
+
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+});
+
+const rotateBy = (points: Point[], radians: number): Point[] => {
+  const c = centroid(points);
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return points.map(p => ({
+    x: (p.x - c.x) * cos - (p.y - c.y) * sin + c.x,
+    y: (p.x - c.x) * sin + (p.y - c.y) * cos + c.y
+  }));
+};
+
+// Uniform scale keeps the aspect ratio, so 1D strokes (swipes) don't blow up
+const scaleToSquare = (points: Point[]): Point[] => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) || 1;
+  return points.map(p => ({ x: (p.x * SQUARE_SIZE) / size, y: (p.y * SQUARE_SIZE) / size }));
+};
+
+const translateToOrigin = (points: Point[]): Point[] => {
+  const c = centroid(points);
+  return points.map(p => ({ x: p.x - c.x, y: p.y - c.y }));
+};
+
+const normalizeStroke = (points: Point[]) =>
+  translateToOrigin(scaleToSquare(resample(points, NUM_POINTS)));
+
+const pathDistance = (a: Point[], b: Point[]) =>
+  a.reduce((sum, p, i) => sum + Math.hypot(p.x - b[i].x, p.y - b[i].y), 0) / a.length;
+
+// Golden section search for the best alignment within ±ANGLE_RANGE
+const distanceAtBestAngle = (points: Point[], template: StrokeTemplate) => {
+  let a = -ANGLE_RANGE;
+  let b = ANGLE_RANGE;
+  let x1 = PHI * a + (1 - PHI) * b;
+  let f1 = pathDistance(rotateBy(points, x1), template.points);
+  let x2 = (1 - PHI) * a + PHI * b;
+  let f2 = pathDistance(rotateBy(points, x2), template.points);
+
+  while (Math.abs(b - a) > ANGLE_PRECISION) {
+    if (f1 < f2) {
+      b = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = PHI * a + (1 - PHI) * b;
+      f1 = pathDistance(rotateBy(points, x1), template.points);
+    } else {
+      a = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = (1 - PHI) * a + PHI * b;
+      f2 = pathDistance(rotateBy(points, x2), template.points);
+    }
+  }
+  return Math.min(f1, f2);
+};
+
+const makeTemplate = (name: string, points: Point[]): StrokeTemplate => ({
+  name,
+  points: normalizeStroke(points)
+});
+
+const polyline = (...coords: Array<[number, number]>) => coords.map(([x, y]) => ({ x, y }));
+
+const circle = (startAngle: number, direction: 1 | -1) =>
+  Array.from({ length: 33 }, (_, i) => {
+    const angle = startAngle + direction * (i / 32) * Math.PI * 2;
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+  });
+
+const ZIGZAG = polyline([0, 0], [0.2, 0.3], [0.4, 0], [0.6, 0.3], [0.8, 0], [1, 0.3]);
+
+// Screen coordinates, y pointing down
+const STROKE_TEMPLATES: StrokeTemplate[] = [
+  // Circles can start anywhere, so one template per 45° of start angle in each direction
+  ...Array.from({ length: 8 }, (_, i) => [
+    makeTemplate('circle', circle((i * Math.PI) / 4, 1)),
+    makeTemplate('circle', circle((i * Math.PI) / 4, -1))
+  ]).flat(),
+  makeTemplate('swipe', polyline([0, 0], [1, 0])),
+  makeTemplate('swipe', polyline([1, 0], [0, 0])),
+  makeTemplate('zigzag', ZIGZAG),
+  makeTemplate('zigzag', [...ZIGZAG].reverse()),
+  makeTemplate('z', polyline([0, 0], [1, 0], [0, 1], [1, 1]))
+];
+
+export const STROKE_NAMES = [...new Set(STROKE_TEMPLATES.map(t => t.name))];
+
+export const recognizeStroke = (points: Point[]): { name: string; score: number } | null => {
+  if (points.length < 8 || pathLength(points) < MIN_STROKE_LENGTH) return null;
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  if (size < MIN_STROKE_SIZE) return null;
+
+  const candidate = normalizeStroke(points);
+  let best: { name: string; score: number } | null = null;
+  for (const template of STROKE_TEMPLATES) {
+    const score = 1 - distanceAtBestAngle(candidate, template) / HALF_DIAGONAL;
+    if (!best || score > best.score) {
+      best = { name: template.name, score };
+    }
+  }
+
+  return best && best.score >= MIN_SCORE ? best : null;
+};
+
+// Buffers each hand's index-tip path and recognizes runes from its recent history.
+// A recognized rune stays on the hand until a new one is drawn; the path restarts after each match.
+export const createStrokeTracker = () => {
+  let paths = new Map<number, Array<Point & { t: number }>>();
+  let runes = new Map<number, RecognizedRune>();
+
+  const apply = (hands: HandData[], timestamp: number): HandData[] => {
+    const nextPaths = new Map<number, Array<Point & { t: number }>>();
+    const nextRunes = new Map<number, RecognizedRune>();
+
+    const updated = hands.map(hand => {
+      const tip = hand.keypoints[8];
+      const path = (paths.get(hand.id) ?? [])
+        .filter(point => timestamp - point.t <= STROKE_HISTORY_MS);
+      path.push({ x: tip.x, y: tip.y, t: timestamp });
+
+      let rune = runes.get(hand.id) ?? null;
+      let best: { name: string; score: number } | null = null;
+      for (const windowMs of STROKE_WINDOWS_MS) {
+        const match = recognizeStroke(path.filter(point => timestamp - point.t <= windowMs));
+        if (match && (!best || match.score > best.score)) best = match;
+      }
+
+      if (best) {
+        rune = { ...best, recognizedAt: timestamp };
+        path.splice(0, path.length - 1);
+      }
+
+      nextPaths.set(hand.id, path);
+      if (rune) nextRunes.set(hand.id, rune);
+
+      return {
+        ...hand,
+        trail: path.map(point => ({ x: point.x, y: point.y })),
+        rune
+      };
+    });
+
+    // Drop state for hands that are no longer tracked
+    paths = nextPaths;
+    runes = nextRunes;
+    return updated;
+  };
+
+  const reset = () => {
+    paths = new Map();
+    runes = new Map();
+  };
+
+  return { apply, reset };
+};
+
+export type StrokeTracker = ReturnType<typeof createStrokeTracker>;
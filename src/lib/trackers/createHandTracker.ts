@@ -0,0 +1,16 @@
+import { createHandposeTracker } from './handposeTracker';
+import { createMediaPipeHandsTracker } from './mediaPipeHandsTracker';
+import type { HandTracker, TrackerBackend } from './types';
+
+// Main-thread trackers - also what handTracking.worker runs internally
+export const createHandTracker = (backend: TrackerBackend): HandTracker => {
+  switch (backend) {
+    case 'handpose':
+      return createHandposeTracker();
+    case 'mediapipe-wasm':
+      return createMediaPipeHandsTracker('mediapipe');
+    case 'mediapipe-tfjs':
+    default:
+      return createMediaPipeHandsTracker('tfjs');
+  }
+};
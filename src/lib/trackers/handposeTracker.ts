@@ -0,0 +1,55 @@
+import * as handpose from '@tensorflow-models/handpose';
+import '@tensorflow/tfjs-backend-webgl';
+import * as tf from '@tensorflow/tfjs';
+
+import type { HandTracker } from './types';
+import type { HandPoseAnnotation } from '../../types/hand';
+
+// Legacy single-hand model. It has no handedness output, so every hand is reported as 'Right'.
+export const createHandposeTracker = (): HandTracker => {
+  let model: handpose.HandPose | null = null;
+
+  return {
+    backend: 'handpose',
+    maxHands: 1,
+    runsInWorker: false,
+
+    load: async () => {
+      await tf.setBackend('webgl');
+      await tf.ready();
+
+      model = await handpose.load({
+        detectionConfidence: 0.8,
+        iouThreshold: 0.3,
+        scoreThreshold: 0.75
+      });
+    },
+
+    estimate: async (input) => {
+      if (!model) return [];
+
+      // handpose doesn't take ImageBitmap directly, so go through a tensor
+      const pixels = input instanceof ImageBitmap ? tf.browser.fromPixels(input) : input;
+      let predictions: handpose.AnnotatedPrediction[];
+      try {
+        predictions = await model.estimateHands(pixels);
+      } finally {
+        if (pixels !== input) (pixels as tf.Tensor3D).dispose();
+      }
+
+      return predictions.map(prediction => {
+        const hand = prediction as HandPoseAnnotation;
+        return {
+          handedness: 'Right',
+          landmarks: hand.landmarks.map(([x, y, z]) => [x, y, z || 0]),
+          score: hand.handInViewConfidence || 1
+        };
+      });
+    },
+
+    // handpose exposes no dispose; dropping the reference lets its weights be collected
+    dispose: () => {
+      model = null;
+    }
+  };
+};
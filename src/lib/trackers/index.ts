@@ -0,0 +1,20 @@
+import type { RawHand, TrackerBackend } from './types';
+
+export type { HandTracker, HandTrackerInput, RawHand, TrackerBackend } from './types';
+export { createHandTracker } from './createHandTracker';
+export { createWorkerHandTracker, supportsWorkerTracking } from './workerTracker';
+
+export const TRACKER_BACKENDS: Array<{ id: TrackerBackend; label: string }> = [
+  { id: 'mediapipe-tfjs', label: 'MediaPipe Hands (TF.js)' },
+  { id: 'mediapipe-wasm', label: 'MediaPipe Hands (WASM)' },
+  { id: 'handpose', label: 'Handpose (legacy, 1 hand)' }
+];
+
+// Map landmarks from a downscaled inference frame back to video pixels
+export const scaleRawHands = (hands: RawHand[], factor: number): RawHand[] =>
+  factor === 1
+    ? hands
+    : hands.map(hand => ({
+        ...hand,
+        landmarks: hand.landmarks.map(([x, y, z]) => [x * factor, y * factor, z * factor])
+      }));
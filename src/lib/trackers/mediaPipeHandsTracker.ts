@@ -0,0 +1,79 @@
+import * as handPoseDetection from '@tensorflow-models/hand-pose-detection';
+import '@tensorflow/tfjs-backend-webgl';
+import * as tf from '@tensorflow/tfjs';
+
+import type { HandTracker } from './types';
+import type { Handedness } from '../../types/hand';
+
+const MAX_HANDS = 2;
+// Bundled from @mediapipe/hands by the build (see vite.config.ts), so the WASM runtime matches the installed package
+const MEDIAPIPE_SOLUTION_PATH = `${import.meta.env.BASE_URL}mediapipe/hands`;
+
+// MediaPipe labels handedness as if the frame were mirrored (selfie view).
+// We feed the raw camera frame, so the label has to be swapped to match the player's hand.
+const toPlayerHandedness = (label: Handedness): Handedness =>
+  label === 'Left' ? 'Right' : 'Left';
+
+// keypoints3D are metric (meters); rescale their depth to image pixels so x, y and z share units.
+// The pixels-per-meter factor comes from the wrist → middle MCP span seen in both spaces.
+const toPixelLandmarks = (hand: handPoseDetection.Hand): number[][] => {
+  const world = hand.keypoints3D;
+  if (!world || world.length !== hand.keypoints.length) {
+    return hand.keypoints.map(point => [point.x, point.y, 0]);
+  }
+
+  const imageSpan = Math.hypot(
+    hand.keypoints[9].x - hand.keypoints[0].x,
+    hand.keypoints[9].y - hand.keypoints[0].y
+  );
+  const worldSpan = Math.hypot(world[9].x - world[0].x, world[9].y - world[0].y) ||
+    Math.hypot(world[9].x - world[0].x, world[9].y - world[0].y, (world[9].z ?? 0) - (world[0].z ?? 0));
+  const scale = worldSpan > 0 ? imageSpan / worldSpan : 0;
+
+  return hand.keypoints.map((point, index) => [
+    point.x,
+    point.y,
+    (world[index].z ?? 0) * scale
+  ]);
+};
+
+// MediaPipe Hands through @tensorflow-models/hand-pose-detection, on either runtime
+export const createMediaPipeHandsTracker = (runtime: 'tfjs' | 'mediapipe'): HandTracker => {
+  let detector: handPoseDetection.HandDetector | null = null;
+
+  return {
+    backend: runtime === 'tfjs' ? 'mediapipe-tfjs' : 'mediapipe-wasm',
+    maxHands: MAX_HANDS,
+    runsInWorker: false,
+
+    load: async () => {
+      if (runtime === 'tfjs') {
+        await tf.setBackend('webgl');
+        await tf.ready();
+      }
+
+      detector = await handPoseDetection.createDetector(
+        handPoseDetection.SupportedModels.MediaPipeHands,
+        runtime === 'tfjs'
+          ? { runtime, modelType: 'full', maxHands: MAX_HANDS }
+          : { runtime, modelType: 'full', maxHands: MAX_HANDS, solutionPath: MEDIAPIPE_SOLUTION_PATH }
+      );
+    },
+
+    estimate: async (input) => {
+      if (!detector) return [];
+
+      const predictions = await detector.estimateHands(input);
+      return predictions.map(hand => ({
+        handedness: toPlayerHandedness(hand.handedness),
+        landmarks: toPixelLandmarks(hand),
+        score: hand.score ?? 1
+      }));
+    },
+
+    dispose: () => {
+      detector?.dispose();
+      detector = null;
+    }
+  };
+};
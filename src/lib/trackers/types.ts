@@ -0,0 +1,21 @@
+import type { Handedness } from '../../types/hand';
+
+export type TrackerBackend = 'handpose' | 'mediapipe-tfjs' | 'mediapipe-wasm';
+
+export type HandTrackerInput = HTMLVideoElement | HTMLCanvasElement | ImageData | ImageBitmap;
+
+// Model-agnostic detection - every adapter reports landmarks the same way
+export interface RawHand {
+  handedness: Handedness; // The player's actual hand
+  landmarks: number[][]; // 21 × [x, y, z] in unmirrored video pixels (z in the same pixel scale)
+  score: number;
+}
+
+export interface HandTracker {
+  backend: TrackerBackend;
+  maxHands: number;
+  runsInWorker: boolean; // Worker trackers take transferable ImageBitmap frames
+  load: () => Promise<void>;
+  estimate: (input: HandTrackerInput) => Promise<RawHand[] | null>; // null = frame dropped as stale
+  dispose: () => void;
+}
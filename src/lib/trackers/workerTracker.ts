@@ -0,0 +1,100 @@
+import type { HandTracker, RawHand, TrackerBackend } from './types';
+import type { HandWorkerRequest, HandWorkerResponse } from '../../workers/handTrackingProtocol';
+
+// The MediaPipe WASM runtime needs the DOM, so only the TF.js backends can move off the main thread
+export const supportsWorkerTracking = (backend: TrackerBackend) =>
+  backend !== 'mediapipe-wasm' &&
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined';
+
+// Runs a tracker inside handTracking.worker; frames are transferred as ImageBitmap
+export const createWorkerHandTracker = (backend: TrackerBackend): HandTracker => {
+  let worker: Worker | null = null;
+  let nextFrameId = 1;
+  const pendingFrames = new Map<number, (hands: RawHand[] | null) => void>();
+
+  const post = (message: HandWorkerRequest, transfer: Transferable[] = []) => {
+    worker?.postMessage(message, transfer);
+  };
+
+  const settleAll = () => {
+    pendingFrames.forEach(resolve => resolve(null));
+    pendingFrames.clear();
+  };
+
+  const tracker: HandTracker = {
+    backend,
+    maxHands: 0,
+    runsInWorker: true,
+
+    load: () => new Promise<void>((resolve, reject) => {
+      worker = new Worker(new URL('../../workers/handTracking.worker.ts', import.meta.url), {
+        type: 'module'
+      });
+
+      let loaded = false;
+      worker.onmessage = (event: MessageEvent<HandWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'loaded':
+            loaded = true;
+            tracker.maxHands = message.maxHands;
+            resolve();
+            break;
+          case 'result':
+            pendingFrames.get(message.frameId)?.(message.hands);
+            pendingFrames.delete(message.frameId);
+            break;
+          case 'dropped':
+            pendingFrames.get(message.frameId)?.(null);
+            pendingFrames.delete(message.frameId);
+            break;
+          case 'error':
+            if (!loaded) {
+              reject(new Error(message.message));
+            } else if (message.frameId !== undefined) {
+              console.error('Hand detection error (worker):', message.message);
+              pendingFrames.get(message.frameId)?.(null);
+              pendingFrames.delete(message.frameId);
+            }
+            break;
+        }
+      };
+
+      // Script or import failures surface here rather than as messages
+      worker.onerror = (event) => {
+        event.preventDefault();
+        settleAll();
+        if (!loaded) reject(new Error(event.message || 'Hand tracking worker failed to start'));
+      };
+
+      post({ type: 'load', backend });
+    }),
+
+    estimate: (input) => {
+      if (!(input instanceof ImageBitmap)) {
+        return Promise.reject(new Error('Worker tracker expects ImageBitmap frames'));
+      }
+      // A frame captured just before dispose has nowhere to go - free it and drop it like one in flight
+      if (!worker) {
+        input.close();
+        return Promise.resolve(null);
+      }
+
+      const frameId = nextFrameId++;
+      return new Promise<RawHand[] | null>((resolve) => {
+        pendingFrames.set(frameId, resolve);
+        post({ type: 'estimate', frameId, bitmap: input }, [input]);
+      });
+    },
+
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      settleAll();
+    }
+  };
+
+  return tracker;
+};
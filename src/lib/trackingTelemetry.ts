@@ -0,0 +1,70 @@
+import type { HandData } from '../types/hand';
+
+export interface TrackingTelemetrySnapshot {
+  latencyHistory: number[]; // Capture → result, ms
+  fpsHistory: number[]; // Detection results per second
+  confidenceHistory: number[]; // Highest hand confidence per frame (0 when no hand)
+  handsLost: number;
+  lastHandLostAt: number | null;
+}
+
+const HISTORY_SIZE = 120;
+
+const pushSample = (history: number[], value: number) => {
+  history.push(value);
+  if (history.length > HISTORY_SIZE) history.shift();
+};
+
+// Rolling counters for the debug HUD - mutable so recording never triggers React renders
+export const createTrackingTelemetry = () => {
+  const latencyHistory: number[] = [];
+  const fpsHistory: number[] = [];
+  const confidenceHistory: number[] = [];
+  const frameTimes: number[] = [];
+  let previousIds = new Set<number>();
+  let handsLost = 0;
+  let lastHandLostAt: number | null = null;
+
+  const recordInference = (latencyMs: number) => {
+    pushSample(latencyHistory, latencyMs);
+  };
+
+  const recordFrame = (hands: HandData[], timestamp: number) => {
+    frameTimes.push(timestamp);
+    while (frameTimes.length > 0 && timestamp - frameTimes[0] > 1000) frameTimes.shift();
+    pushSample(fpsHistory, frameTimes.length);
+
+    pushSample(confidenceHistory, hands.reduce((max, hand) => Math.max(max, hand.confidence), 0));
+
+    const ids = new Set(hands.map(hand => hand.id));
+    previousIds.forEach(id => {
+      if (!ids.has(id)) {
+        handsLost++;
+        lastHandLostAt = timestamp;
+      }
+    });
+    previousIds = ids;
+  };
+
+  const snapshot = (): TrackingTelemetrySnapshot => ({
+    latencyHistory: [...latencyHistory],
+    fpsHistory: [...fpsHistory],
+    confidenceHistory: [...confidenceHistory],
+    handsLost,
+    lastHandLostAt
+  });
+
+  const reset = () => {
+    latencyHistory.length = 0;
+    fpsHistory.length = 0;
+    confidenceHistory.length = 0;
+    frameTimes.length = 0;
+    previousIds = new Set();
+    handsLost = 0;
+    lastHandLostAt = null;
+  };
+
+  return { recordInference, recordFrame, snapshot, reset };
+};
+
+export type TrackingTelemetry = ReturnType<typeof createTrackingTelemetry>;
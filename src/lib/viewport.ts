@@ -0,0 +1,69 @@
+// Shared mapping between camera video pixels and the on-screen viewport.
+// The display video uses `object-cover` plus a horizontal CSS mirror, so landmarks get the same
+// uniform scale, centered crop and flip to line up with the visible hand.
+
+export interface Viewport {
+  width: number; // CSS pixels
+  height: number;
+  dpr: number;
+}
+
+export interface VideoTransform {
+  scale: number;
+  offsetX: number; // Negative when the video is cropped on that axis
+  offsetY: number;
+  mirrored: boolean;
+  viewportWidth: number;
+}
+
+export const getViewport = (): Viewport => ({
+  width: window.innerWidth,
+  height: window.innerHeight,
+  dpr: window.devicePixelRatio || 1
+});
+
+export const coverTransform = (
+  videoWidth: number,
+  videoHeight: number,
+  viewport: Viewport,
+  mirrored = true
+): VideoTransform => {
+  const scale = Math.max(viewport.width / videoWidth, viewport.height / videoHeight);
+  return {
+    scale,
+    offsetX: (viewport.width - videoWidth * scale) / 2,
+    offsetY: (viewport.height - videoHeight * scale) / 2,
+    mirrored,
+    viewportWidth: viewport.width
+  };
+};
+
+// Video pixel → screen CSS pixel. z is scaled with x/y so depth keeps the same units.
+export const videoToScreen = (transform: VideoTransform, x: number, y: number, z = 0) => {
+  const screenX = transform.offsetX + x * transform.scale;
+  return {
+    x: transform.mirrored ? transform.viewportWidth - screenX : screenX,
+    y: transform.offsetY + y * transform.scale,
+    z: z * transform.scale
+  };
+};
+
+// Resolution-independent anchor (0..1 on each axis) → screen CSS pixel
+export const normalizedToScreen = (viewport: Viewport, nx: number, ny: number) => ({
+  x: viewport.width * nx,
+  y: viewport.height * ny
+});
+
+// Size a full-screen canvas for the device pixel ratio and draw in CSS pixels
+export const fitCanvasToViewport = (canvas: HTMLCanvasElement, viewport: Viewport) => {
+  const width = Math.round(viewport.width * viewport.dpr);
+  const height = Math.round(viewport.height * viewport.dpr);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  const ctx = canvas.getContext('2d');
+  ctx?.setTransform(viewport.dpr, 0, 0, viewport.dpr, 0, 0);
+  return ctx;
+};
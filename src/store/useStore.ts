@@ -1,17 +1,275 @@
 import { create } from 'zustand';
+import type { TrackerBackend } from '../lib/trackers';
+import {
+  loadCustomGestures,
+  saveCustomGesture,
+  deleteCustomGesture,
+  type CustomGesture
+} from '../lib/customGestures';
+import { DEFAULT_SPELLS, onSpellbookReload, type Spell } from '../game/spells';
+import { loadDiscoveredCombos, saveDiscoveredCombo } from '../game/combos';
+import {
+  ACHIEVEMENT_EVENTS,
+  NEW_ACHIEVEMENT_PROGRESS,
+  loadAchievements,
+  newlyUnlocked,
+  saveAchievementProgress,
+  saveAchievementUnlock,
+  trackProgress,
+  type Achievement,
+  type AchievementProgress
+} from '../game/achievements';
+import { gameplayEvents, type GameplayEvent } from '../game/gameplayEvents';
+import { addExperience } from '../game/progression';
+import { TALENT_TREE, talentBlocker } from '../game/talents';
+import {
+  createSave,
+  newProgression,
+  parseSave,
+  readActiveSlot,
+  readSlot,
+  writeActiveSlot,
+  writeSlot,
+  type Progression
+} from '../lib/saves';
 
 interface AppState {
   // UI State
   cameraEnabled: boolean;
+  debugHudVisible: boolean;
+
+  // Tracking
+  trackerBackend: TrackerBackend;
+
+  // User-trained gestures (persisted in IndexedDB)
+  customGestures: CustomGesture[];
+
+  // Spellbook (src/data/spells.json, hot-reloaded in dev)
+  spells: Spell[];
+
+  // Elemental combo recipes the player has triggered at least once (persisted in IndexedDB)
+  discoveredCombos: string[];
+
+  // Achievement counters and unlock times by id (persisted in IndexedDB)
+  achievementProgress: AchievementProgress;
+  unlockedAchievements: Record<string, number>;
+
+  // Player progression, saved to the active slot in localStorage
+  activeSlot: number;
+  level: number;
+  experience: number; // Towards the next level
+  mana: number;
+  talents: Record<string, number>; // Talent ranks by id
   
   // Actions
   setCameraEnabled: (enabled: boolean) => void;
+  setDebugHudVisible: (visible: boolean) => void;
+  setTrackerBackend: (backend: TrackerBackend) => void;
+  loadCustomGestures: () => Promise<void>;
+  saveCustomGesture: (gesture: CustomGesture) => Promise<void>;
+  deleteCustomGesture: (id: string) => Promise<void>;
+  loadDiscoveredCombos: () => Promise<void>;
+  discoverCombo: (id: string) => Promise<void>;
+  loadAchievements: () => Promise<Achievement[]>; // Resolves with what events played before the load unlocked
+  trackAchievements: (event: GameplayEvent) => Achievement[]; // Returns what this event unlocked
+  setMana: (mana: number) => void;
+  gainExperience: (amount: number) => number; // Returns the number of levels gained
+  learnTalent: (id: string) => void;
+  resetTalents: () => void;
+  loadSlot: (slot: number) => void;
+  importSave: (slot: number, json: string) => void;
 }
 
-export const useStore = create<AppState>((set) => ({
+// A slot that fails to load starts fresh rather than blocking the game
+const loadProgression = (slot: number): Progression => {
+  try {
+    const save = readSlot(slot);
+    return save
+      ? { level: save.level, experience: save.experience, mana: save.mana, talents: save.talents }
+      : newProgression();
+  } catch (err) {
+    console.error(`Failed to load save slot ${slot}:`, err);
+    return newProgression();
+  }
+};
+
+const initialSlot = readActiveSlot();
+
+// Events that arrive before the stored achievement progress has loaded wait here, so they are
+// counted on top of it instead of being overwritten by it. Null once loaded.
+let pendingAchievementEvents: GameplayEvent[] | null = [];
+
+export const useStore = create<AppState>((set, get) => ({
   // Initial state
   cameraEnabled: false,
+  debugHudVisible: false,
+  trackerBackend: 'mediapipe-tfjs',
+  customGestures: [],
+  spells: DEFAULT_SPELLS,
+  discoveredCombos: [],
+  achievementProgress: NEW_ACHIEVEMENT_PROGRESS,
+  unlockedAchievements: {},
+  activeSlot: initialSlot,
+  ...loadProgression(initialSlot),
   
   // Actions
   setCameraEnabled: (enabled) => set({ cameraEnabled: enabled }),
-}));
\ No newline at end of file
+  setDebugHudVisible: (visible) => set({ debugHudVisible: visible }),
+  setTrackerBackend: (backend) => set({ trackerBackend: backend }),
+
+  loadCustomGestures: async () => {
+    const gestures = await loadCustomGestures();
+    set({ customGestures: gestures.sort((a, b) => a.createdAt - b.createdAt) });
+  },
+
+  saveCustomGesture: async (gesture) => {
+    await saveCustomGesture(gesture);
+    set((state) => ({
+      customGestures: state.customGestures.some(g => g.id === gesture.id)
+        ? state.customGestures.map(g => (g.id === gesture.id ? gesture : g))
+        : [...state.customGestures, gesture]
+    }));
+  },
+
+  deleteCustomGesture: async (id) => {
+    await deleteCustomGesture(id);
+    set((state) => ({ customGestures: state.customGestures.filter(g => g.id !== id) }));
+  },
+
+  loadDiscoveredCombos: async () => {
+    set({ discoveredCombos: await loadDiscoveredCombos() });
+  },
+
+  discoverCombo: async (id) => {
+    set((state) => ({
+      discoveredCombos: state.discoveredCombos.includes(id) ? state.discoveredCombos : [...state.discoveredCombos, id]
+    }));
+    await saveDiscoveredCombo(id);
+  },
+
+  loadAchievements: async () => {
+    // Without stored progress (private mode, a blocked upgrade) count from zero rather than never
+    const { progress, unlocked } = await loadAchievements().catch(err => {
+      console.error('Failed to load achievements:', err);
+      return { progress: NEW_ACHIEVEMENT_PROGRESS, unlocked: {} };
+    });
+    // A second load would discard progress tracked since the first one
+    const pending = pendingAchievementEvents;
+    if (!pending) return [];
+    pendingAchievementEvents = null;
+    set({ achievementProgress: progress, unlockedAchievements: unlocked });
+    return pending.flatMap(event => get().trackAchievements(event));
+  },
+
+  trackAchievements: (event) => {
+    if (!ACHIEVEMENT_EVENTS.includes(event.type)) return [];
+    if (pendingAchievementEvents) {
+      pendingAchievementEvents.push(event);
+      return [];
+    }
+    const { achievementProgress, unlockedAchievements } = get();
+    const progress = trackProgress(achievementProgress, event);
+    if (progress === achievementProgress) return [];
+
+    const unlocked = newlyUnlocked(progress, unlockedAchievements);
+    const now = Date.now();
+    set({
+      achievementProgress: progress,
+      unlockedAchievements: {
+        ...unlockedAchievements,
+        ...Object.fromEntries(unlocked.map(achievement => [achievement.id, now]))
+      }
+    });
+
+    Promise.all([
+      saveAchievementProgress(progress),
+      ...unlocked.map(achievement => saveAchievementUnlock(achievement.id, now))
+    ]).catch(err => console.error('Failed to save achievements:', err));
+    return unlocked;
+  },
+
+  setMana: (mana) => set({ mana }),
+
+  gainExperience: (amount) => {
+    const { level, experience } = get();
+    const progress = addExperience({ level, experience }, amount);
+    set(progress);
+    const levelsGained = progress.level - level;
+    if (levelsGained > 0) gameplayEvents.emit('levelUp', { level: progress.level, levelsGained });
+    return levelsGained;
+  },
+
+  // Ignored unless the talent can actually take another rank
+  learnTalent: (id) => {
+    const { level, talents } = get();
+    const node = TALENT_TREE.find(n => n.id === id);
+    if (!node || talentBlocker(node, level, talents)) return;
+    set({ talents: { ...talents, [id]: (talents[id] ?? 0) + 1 } });
+  },
+
+  resetTalents: () => set({ talents: {} }),
+
+  loadSlot: (slot) => {
+    writeActiveSlot(slot);
+    set({ activeSlot: slot, ...loadProgression(slot) });
+  },
+
+  // Throws on an invalid file so the caller can show why
+  importSave: (slot, json) => {
+    const save = parseSave(json);
+    writeSlot(slot, save);
+    if (slot === get().activeSlot) {
+      set({ level: save.level, experience: save.experience, mana: save.mana, talents: save.talents });
+    }
+  },
+}));
+
+// Pick up spellbook edits during development
+onSpellbookReload((spells) => useStore.setState({ spells }));
+
+// Mana changes every frame during play, so progression saves are batched
+const SAVE_DELAY_MS = 1000;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+const writeProgression = (state: AppState) => {
+  try {
+    const { level, experience, mana, talents } = state;
+    writeSlot(state.activeSlot, createSave({ level, experience, mana, talents }));
+  } catch (err) {
+    console.error('Failed to save progression:', err);
+  }
+};
+
+// Write a batched save now, if one is waiting
+const flushProgression = (state: AppState) => {
+  if (saveTimer === null) return;
+  clearTimeout(saveTimer);
+  saveTimer = null;
+  writeProgression(state);
+};
+
+// Save progression to the active slot whenever it changes
+useStore.subscribe((state, prev) => {
+  if (
+    state.activeSlot === prev.activeSlot &&
+    state.level === prev.level &&
+    state.experience === prev.experience &&
+    state.mana === prev.mana &&
+    state.talents === prev.talents
+  ) return;
+
+  // Switching slots finishes the old slot's pending save, then stores the new one as loaded
+  if (state.activeSlot !== prev.activeSlot) {
+    flushProgression(prev);
+    writeProgression(state);
+    return;
+  }
+
+  saveTimer ??= setTimeout(() => {
+    saveTimer = null;
+    writeProgression(useStore.getState());
+  }, SAVE_DELAY_MS);
+});
+
+// Don't lose the last batch when the tab closes
+window.addEventListener('pagehide', () => flushProgression(useStore.getState()));
@@ -5,7 +5,18 @@ export interface HandKeypoint {
   name: string;
 }
 
+export type Handedness = 'Left' | 'Right';
+
+// A stroke template matched from the index-tip path
+export interface RecognizedRune {
+  name: string;
+  score: number;
+  recognizedAt: number; // Frame timestamp - changes whenever a new rune is drawn
+}
+
 export interface HandData {
+  id: number; // Stable track ID while the hand stays in view
+  handedness: Handedness; // The player's actual hand, not the mirrored image side
   keypoints: HandKeypoint[];
   gesture: string;
   confidence: number;
@@ -13,6 +24,8 @@ export interface HandData {
     topLeft: [number, number];
     bottomRight: [number, number];
   };
+  trail: Array<{ x: number; y: number }>; // Recent index-tip path in screen coordinates
+  rune: RecognizedRune | null; // Last rune drawn by this hand
 }
 
 export interface HandPoseAnnotation {
@@ -22,4 +35,4 @@ export interface HandPoseAnnotation {
     topLeft: [number, number];
     bottomRight: [number, number];
   };
-}
\ No newline at end of file
+}
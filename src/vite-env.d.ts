@@ -1,5 +1,18 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  readonly VITE_FILTER_MIN_CUTOFF?: string;
+  readonly VITE_FILTER_BETA?: string;
+  readonly VITE_FILTER_DERIVATE_CUTOFF?: string;
+  readonly VITE_GESTURE_HOLD_MS?: string;
+  readonly VITE_GESTURE_UNKNOWN_HOLD_MS?: string;
+  readonly VITE_INFERENCE_BUDGET_MS?: string;
+  readonly VITE_INFERENCE_MAX_FPS?: string;
+  readonly VITE_AIM_ASSIST?: string;
+  readonly VITE_XP_BASE?: string;
+  readonly VITE_XP_GROWTH?: string;
+}
+
 declare module '*.css' {
   const content: { [className: string]: string };
   export default content;
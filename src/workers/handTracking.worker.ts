@@ -0,0 +1,64 @@
+import { createHandTracker } from '../lib/trackers/createHandTracker';
+import type { HandTracker } from '../lib/trackers/types';
+import type { HandWorkerRequest, HandWorkerResponse } from './handTrackingProtocol';
+
+// The DOM lib types `self` as Window, so describe the worker scope we actually use
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<HandWorkerRequest>) => void) | null;
+  postMessage: (message: HandWorkerResponse) => void;
+};
+
+let tracker: HandTracker | null = null;
+let busy = false;
+// Latest-frame slot: a frame that arrives while one is pending replaces it
+let pending: { frameId: number; bitmap: ImageBitmap } | null = null;
+
+const processNext = async () => {
+  if (busy || !pending || !tracker) return;
+
+  busy = true;
+  const frame = pending;
+  pending = null;
+
+  try {
+    const hands = await tracker.estimate(frame.bitmap);
+    workerScope.postMessage({ type: 'result', frameId: frame.frameId, hands: hands ?? [] });
+  } catch (err) {
+    workerScope.postMessage({
+      type: 'error',
+      frameId: frame.frameId,
+      message: err instanceof Error ? err.message : String(err)
+    });
+  } finally {
+    frame.bitmap.close();
+    busy = false;
+    processNext();
+  }
+};
+
+workerScope.onmessage = async (event) => {
+  const message = event.data;
+
+  if (message.type === 'load') {
+    try {
+      tracker?.dispose();
+      tracker = createHandTracker(message.backend);
+      await tracker.load();
+      workerScope.postMessage({ type: 'loaded', maxHands: tracker.maxHands });
+    } catch (err) {
+      tracker = null;
+      workerScope.postMessage({
+        type: 'error',
+        message: err instanceof Error ? err.message : String(err)
+      });
+    }
+    return;
+  }
+
+  if (pending) {
+    pending.bitmap.close();
+    workerScope.postMessage({ type: 'dropped', frameId: pending.frameId });
+  }
+  pending = { frameId: message.frameId, bitmap: message.bitmap };
+  processNext();
+};
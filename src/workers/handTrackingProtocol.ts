@@ -0,0 +1,12 @@
+import type { RawHand, TrackerBackend } from '../lib/trackers/types';
+
+// Messages between the main thread and handTracking.worker
+export type HandWorkerRequest =
+  | { type: 'load'; backend: TrackerBackend }
+  | { type: 'estimate'; frameId: number; bitmap: ImageBitmap };
+
+export type HandWorkerResponse =
+  | { type: 'loaded'; maxHands: number }
+  | { type: 'result'; frameId: number; hands: RawHand[] }
+  | { type: 'dropped'; frameId: number }
+  | { type: 'error'; message: string; frameId?: number };
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  NEW_ACHIEVEMENT_PROGRESS,
+  newlyUnlocked,
+  trackProgress,
+  type AchievementProgress
+} from '../src/game/achievements';
+import type { GameplayEvent } from '../src/game/gameplayEvents';
+import type { ChargeZone } from '../src/game/charge';
+import { DEFAULT_SPELLS, SPELL_ELEMENTS, type Spell } from '../src/game/spells';
+
+const SPELL = DEFAULT_SPELLS[0];
+
+const cast = (spell: Spell = SPELL): GameplayEvent => ({ type: 'spellCast', payload: { spell, zone: 'full', combo: null } });
+const hit = (zone: ChargeZone = 'full'): GameplayEvent => ({ type: 'projectileHit', payload: { spell: SPELL, enemy: 'imp', zone } });
+const miss: GameplayEvent = { type: 'projectileMissed', payload: { spell: SPELL } };
+
+const play = (events: GameplayEvent[], from: AchievementProgress = NEW_ACHIEVEMENT_PROGRESS) =>
+  events.reduce(trackProgress, from);
+
+const unlockedIds = (progress: AchievementProgress, unlocked: Record<string, number> = {}) =>
+  newlyUnlocked(progress, unlocked).map(({ id }) => id);
+
+test('the first cast unlocks its achievement once', () => {
+  const progress = play([cast()]);
+  assert.deepEqual(unlockedIds(progress), ['first-cast']);
+  assert.deepEqual(unlockedIds(play([cast()], progress), { 'first-cast': 1 }), []);
+});
+
+test('ten hits in a row count, a miss starts the streak over', () => {
+  const broken = play([...Array(9).fill(hit()), miss, ...Array(9).fill(hit())]);
+  assert.equal(broken.bestHitStreak, 9);
+  assert.ok(!unlockedIds(broken).includes('ten-hit-combo'));
+
+  const streak = play([miss, ...Array(10).fill(hit())]);
+  assert.equal(streak.bestHitStreak, 10);
+  assert.ok(unlockedIds(streak).includes('ten-hit-combo'));
+
+  // The best streak survives the miss that ends it
+  assert.equal(play([miss], streak).bestHitStreak, 10);
+});
+
+test('scarecrows are counted apart from other enemies', () => {
+  const defeat = (enemy: 'dummy' | 'imp'): GameplayEvent => ({ type: 'targetDefeated', payload: { enemy } });
+  const progress = play([...Array(9).fill(defeat('dummy')), defeat('imp')]);
+  assert.deepEqual(progress.defeats, { dummy: 9, imp: 1 });
+  assert.ok(!unlockedIds(progress).includes('scarecrow-slayer'));
+  assert.ok(unlockedIds(play([defeat('dummy')], progress)).includes('scarecrow-slayer'));
+});
+
+test('every element has to be cast for the elementalist', () => {
+  const oneOfEach = SPELL_ELEMENTS
+    .map(element => DEFAULT_SPELLS.find(spell => spell.element === element))
+    .filter((spell): spell is Spell => spell !== undefined);
+  assert.equal(oneOfEach.length, SPELL_ELEMENTS.length, 'every element needs a default spell');
+
+  const allButOne = play(oneOfEach.slice(1).map(spell => cast(spell)));
+  assert.ok(!unlockedIds(allButOne).includes('elementalist'));
+  const all = play([cast(oneOfEach[0]), cast(oneOfEach[0])], allButOne);
+  assert.equal(all.elementsCast.length, SPELL_ELEMENTS.length);
+  assert.ok(unlockedIds(all).includes('elementalist'));
+});
+
+test('only overcharged hits count for the perfect overcharge', () => {
+  assert.equal(play([hit('full'), hit('weak')]).overchargeHits, 0);
+  assert.ok(unlockedIds(play([hit('overcharge')])).includes('perfect-overcharge'));
+});
+
+test('events that achievements ignore leave the progress untouched', () => {
+  const progress = play([cast(), hit()]);
+  const levelUp: GameplayEvent = { type: 'levelUp', payload: { level: 2, levelsGained: 1 } };
+  assert.equal(trackProgress(progress, levelUp), progress);
+  assert.equal(trackProgress(NEW_ACHIEVEMENT_PROGRESS, miss), NEW_ACHIEVEMENT_PROGRESS);
+});
@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  COMBO_RECIPES,
+  createComboTracker,
+  parseComboRecipes,
+  pickChainTargets,
+  type ChainEffect,
+  type ComboRecipe
+} from '../src/game/combos';
+
+const CLOUD = {
+  type: 'cloud',
+  element: 'water',
+  color: '#e5e7eb',
+  radius: 120,
+  durationMs: 4000,
+  tickDamage: 8,
+  tickIntervalMs: 500
+} as const;
+
+const recipe = (id: string, sequence: ComboRecipe['sequence'], windowMs = 3000): ComboRecipe => ({
+  id,
+  name: id,
+  icon: '✨',
+  description: id,
+  sequence,
+  windowMs,
+  effect: CLOUD
+});
+
+const STEAM = recipe('steam', ['fire', 'water']);
+const STORM = recipe('storm', ['fire', 'water', 'lightning'], 5000);
+
+test('the last cast of a sequence completes its recipe', () => {
+  const tracker = createComboTracker([STEAM]);
+  assert.equal(tracker.record('fire', 0), null);
+  assert.equal(tracker.record('water', 1000), STEAM);
+});
+
+test('casts must come in order and inside the window', () => {
+  const reversed = createComboTracker([STEAM]);
+  reversed.record('water', 0);
+  assert.equal(reversed.record('fire', 1000), null);
+
+  const slow = createComboTracker([STEAM]);
+  slow.record('fire', 0);
+  assert.equal(slow.record('water', 3001), null);
+
+  const interrupted = createComboTracker([STEAM]);
+  interrupted.record('fire', 0);
+  interrupted.record('wind', 500);
+  assert.equal(interrupted.record('water', 1000), null);
+});
+
+test('the longest recipe a cast completes wins', () => {
+  const tracker = createComboTracker([STEAM, STORM]);
+  tracker.record('fire', 0);
+  assert.equal(tracker.record('water', 1000), STEAM);
+  // The history is kept until the combo lands, so the longer recipe can still follow
+  assert.equal(tracker.record('lightning', 2000), STORM);
+});
+
+test('resetting on impact spends the casts that made the combo', () => {
+  const tracker = createComboTracker([STEAM, STORM]);
+  tracker.record('fire', 0);
+  tracker.record('water', 1000);
+  tracker.reset();
+  assert.equal(tracker.record('lightning', 2000), null);
+  assert.equal(tracker.record('water', 2500), null);
+});
+
+test('the bundled recipes are valid', () => {
+  assert.ok(COMBO_RECIPES.length > 0);
+});
+
+test('invalid recipes are rejected with every problem listed', () => {
+  const bad = {
+    combos: [
+      { ...STEAM, sequence: ['fire'] },
+      { ...STEAM, effect: { ...CLOUD, type: 'nova' } },
+      { ...STORM, id: 'steam', sequence: ['fire', 'water'] }
+    ]
+  };
+  assert.throws(() => parseComboRecipes(bad), (err: Error) =>
+    ['combos[0] (steam).sequence', 'combos[1] (steam).effect.type', 'combos[2] (steam).id', 'combos[2] (steam).sequence']
+      .every(problem => err.message.includes(problem))
+  );
+  assert.throws(() => parseComboRecipes({}), /"combos" 배열/);
+});
+
+test('chain lightning jumps to the nearest enemy in range each time', () => {
+  const chain: ChainEffect = { type: 'chain', element: 'lightning', color: '#facc15', jumps: 3, range: 150, damage: 20 };
+  const near = { x: 100, y: 0 };
+  const nearer = { x: 50, y: 0 };
+  const further = { x: 200, y: 0 };
+  const outOfRange = { x: 500, y: 0 };
+
+  assert.deepEqual(pickChainTargets({ x: 0, y: 0 }, [further, near, outOfRange, nearer], chain), [nearer, near, further]);
+  assert.deepEqual(pickChainTargets({ x: 0, y: 0 }, [outOfRange], chain), []);
+  assert.deepEqual(pickChainTargets({ x: 0, y: 0 }, [nearer, near], { ...chain, jumps: 1 }), [nearer]);
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Handedness, HandKeypoint } from '../src/types/hand';
+import {
+  createCustomGestureClassifier,
+  normalizeHand,
+  resolveGesture,
+  type CustomGesture
+} from '../src/lib/customGestures';
+import { GESTURE_FIXTURES } from './gestureFixtures';
+
+const toKeypoints = (landmarks: number[][]): HandKeypoint[] =>
+  landmarks.map(([x, y, z], index) => ({ x, y, z, name: `landmark${index}` }));
+
+// The upright pose for a label - custom gestures are trained and matched without rotation
+const upright = (label: string, handedness: Handedness = 'Right') => {
+  const fixture = GESTURE_FIXTURES.find(f =>
+    f.label === label && f.handedness === handedness && f.description.endsWith('rotated 0°')
+  );
+  assert.ok(fixture, `no upright ${handedness} ${label} fixture`);
+  return toKeypoints(fixture.landmarks);
+};
+
+// Small per-landmark offsets, the same on every call for a given seed
+const jitter = (keypoints: HandKeypoint[], seed: number) =>
+  keypoints.map((point, index) => ({
+    ...point,
+    x: point.x + 2 * Math.sin(seed * 7 + index),
+    y: point.y + 2 * Math.cos(seed * 3 + index)
+  }));
+
+const gesture = (name: string, keypoints: HandKeypoint[][]): CustomGesture => ({
+  id: name,
+  name,
+  samples: keypoints.map(points => normalizeHand(points, 'Right')),
+  spellId: null,
+  createdAt: 0
+});
+
+test('normalizing ignores where the hand is, how big it looks and which hand it is', () => {
+  const right = upright('rock');
+  const moved = right.map(point => ({ ...point, x: point.x * 1.5 + 80, y: point.y * 1.5 - 40, z: point.z * 1.5 }));
+  const expected = normalizeHand(right, 'Right');
+
+  normalizeHand(moved, 'Right').forEach((value, index) => assert.ok(Math.abs(value - expected[index]) < 1e-9));
+  normalizeHand(upright('rock', 'Left'), 'Left').forEach((value, index) =>
+    assert.ok(Math.abs(value - expected[index]) < 0.01)
+  );
+});
+
+test('a trained pose is recognised through jitter, and other poses are not', () => {
+  const classify = createCustomGestureClassifier([
+    gesture('spider', [1, 2, 3].map(seed => jitter(upright('rock'), seed)))
+  ]);
+
+  assert.equal(classify(normalizeHand(jitter(upright('rock'), 4), 'Right')), 'spider');
+  assert.equal(classify(normalizeHand(upright('fist'), 'Right')), null);
+  assert.equal(classify(normalizeHand(upright('palm'), 'Right')), null);
+});
+
+test('the nearest samples outvote the rest', () => {
+  const classify = createCustomGestureClassifier([
+    gesture('spider', [1, 2, 3].map(seed => jitter(upright('rock'), seed))),
+    gesture('victory', [1, 2, 3].map(seed => jitter(upright('peace'), seed)))
+  ]);
+
+  assert.equal(classify(normalizeHand(upright('rock'), 'Right')), 'spider');
+  assert.equal(classify(normalizeHand(upright('peace'), 'Right')), 'victory');
+});
+
+test('a tie between neighbours is not a match', () => {
+  const pose = upright('rock');
+  const classify = createCustomGestureClassifier([gesture('spider', [pose]), gesture('horns', [pose])]);
+  assert.equal(classify(normalizeHand(pose, 'Right')), null);
+});
+
+test('no trained gestures means no match', () => {
+  assert.equal(createCustomGestureClassifier([])(normalizeHand(upright('rock'), 'Right')), null);
+});
+
+test('custom gestures never override charge and release', () => {
+  assert.equal(resolveGesture('rock', 'spider'), 'spider');
+  assert.equal(resolveGesture('unknown', 'spider'), 'spider');
+  assert.equal(resolveGesture('fist', 'spider'), 'fist');
+  assert.equal(resolveGesture('palm', 'spider'), 'palm');
+  assert.equal(resolveGesture('rock', null), 'rock');
+});
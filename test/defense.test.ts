@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isPalmFacingCamera } from '../src/game/defense';
+import { GESTURE_FIXTURES } from './gestureFixtures';
+
+// Fixtures are in video pixels; the game sees them mirrored like the display video
+const toScreen = (landmarks: number[][]) => landmarks.map(([x, y]) => ({ x: -x, y }));
+
+const palms = GESTURE_FIXTURES.filter(fixture => fixture.label === 'palm');
+
+test('a palm facing the camera raises the shield at any rotation', () => {
+  palms.forEach(fixture => {
+    assert.ok(isPalmFacingCamera(toScreen(fixture.landmarks), fixture.handedness), fixture.description);
+  });
+});
+
+test('the back of the hand does not raise the shield', () => {
+  // The back of a right hand has the same outline as a left palm, and the other way round
+  palms.forEach(fixture => {
+    const other = fixture.handedness === 'Right' ? 'Left' : 'Right';
+    assert.ok(!isPalmFacingCamera(toScreen(fixture.landmarks), other), fixture.description);
+  });
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HandData, Handedness } from '../src/types/hand';
+import { DEFAULT_SPELLS } from '../src/game/spells';
+import { talentModifiers } from '../src/game/talents';
+import {
+  TICK_MS,
+  createGameEngine,
+  createSeededRandom,
+  type GameCommand,
+  type GameEvent,
+  type GameSnapshot
+} from '../src/game/engine';
+
+const VIEWPORT = { width: 1280, height: 720, dpr: 1 };
+const RUN_TICKS = 60 * 60;
+
+// A still hand at (x, y) with the index tip raised above the wrist, so it aims upwards
+const hand = (id: number, handedness: Handedness, gesture: string, x: number): HandData => ({
+  id,
+  handedness,
+  gesture,
+  confidence: 1,
+  keypoints: Array.from({ length: 21 }, (_, i) => ({ x, y: i === 8 ? 300 : 400, z: 0, name: String(i) })),
+  boundingBox: { topLeft: [x - 50, 300], bottomRight: [x + 50, 450] },
+  trail: [],
+  rune: null
+});
+
+// Two hands casting on different rhythms, plus a resize and a talent change part way through
+const commandsAt = (tick: number): GameCommand[] => {
+  const commands: GameCommand[] = [];
+  const right = ['fist', 'point', 'point', 'palm'][Math.floor((tick % 120) / 30)];
+  const left = ['fist', 'peace', 'rock', 'palm'][Math.floor((tick % 200) / 50)];
+  if (tick % 10 === 0) {
+    commands.push({
+      type: 'hands',
+      hands: [hand(1, 'Right', right, 900), hand(2, 'Left', left, 300)]
+    });
+  }
+  if (tick === 1200) commands.push({ type: 'resize', viewport: { width: 1024, height: 768, dpr: 2 } });
+  if (tick === 2400) commands.push({ type: 'talents', modifiers: talentModifiers({ 'mana-flow': 1 }) });
+  return commands;
+};
+
+// Play the whole script with uneven frame times, keeping a snapshot each second and every event
+const playRun = (seed: number) => {
+  const engine = createGameEngine({ viewport: VIEWPORT, spells: DEFAULT_SPELLS, random: createSeededRandom(seed) });
+  const snapshots: GameSnapshot[] = [];
+  const events: GameEvent[] = [];
+
+  for (let tick = 0; tick < RUN_TICKS; tick++) {
+    commandsAt(tick).forEach(engine.dispatch);
+    engine.advance(tick % 3 === 0 ? TICK_MS * 2 : TICK_MS / 2);
+    events.push(...engine.drainEvents());
+    if (tick % 60 === 0) snapshots.push(engine.snapshot());
+  }
+  snapshots.push(engine.snapshot());
+  return { snapshots, events };
+};
+
+test('the same seed and commands replay the same run', () => {
+  const first = playRun(42);
+  const second = playRun(42);
+
+  // The script has to exercise the game for the comparison to mean anything
+  assert.ok(first.events.some(event => event.type === 'spellCast'), 'no spell was cast');
+  assert.ok(first.events.some(event => event.type === 'spellHit'), 'no spell hit');
+
+  assert.deepEqual(second.snapshots, first.snapshots);
+  assert.deepEqual(second.events, first.events);
+});
+
+test('a different seed changes the run', () => {
+  assert.notDeepEqual(playRun(7).snapshots, playRun(42).snapshots);
+});
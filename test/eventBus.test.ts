@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createEventBus } from '../src/lib/eventBus';
+
+type TestEvents = {
+  hit: { damage: number };
+  tick: { time: number };
+};
+
+test('listeners get the payloads of their event only', () => {
+  const bus = createEventBus<TestEvents>();
+  const hits: number[] = [];
+  bus.on('hit', ({ damage }) => hits.push(damage));
+
+  bus.emit('hit', { damage: 5 });
+  bus.emit('tick', { time: 1 });
+  bus.emit('hit', { damage: 7 });
+  assert.deepEqual(hits, [5, 7]);
+});
+
+test('unsubscribing through the returned function or off stops delivery', () => {
+  const bus = createEventBus<TestEvents>();
+  const calls: string[] = [];
+  const unsubscribe = bus.on('hit', () => calls.push('returned'));
+  const listener = () => calls.push('off');
+  bus.on('hit', listener);
+  const unsubscribeAny = bus.onAny(event => calls.push(`any:${event.type}`));
+
+  bus.emit('hit', { damage: 1 });
+  unsubscribe();
+  bus.off('hit', listener);
+  unsubscribeAny();
+  bus.emit('hit', { damage: 2 });
+  assert.deepEqual(calls, ['returned', 'off', 'any:hit']);
+});
+
+test('catch-all listeners see every event with its name', () => {
+  const bus = createEventBus<TestEvents>();
+  const seen: unknown[] = [];
+  bus.onAny(event => seen.push(event));
+
+  bus.emit('hit', { damage: 3 });
+  bus.emit('tick', { time: 2 });
+  assert.deepEqual(seen, [
+    { type: 'hit', payload: { damage: 3 } },
+    { type: 'tick', payload: { time: 2 } }
+  ]);
+});
+
+test('a throwing listener does not stop the others', (t) => {
+  t.mock.method(console, 'error', () => {});
+  const bus = createEventBus<TestEvents>();
+  const hits: number[] = [];
+  bus.on('hit', () => {
+    throw new Error('broken listener');
+  });
+  bus.on('hit', ({ damage }) => hits.push(damage));
+
+  bus.emit('hit', { damage: 4 });
+  assert.deepEqual(hits, [4]);
+});
+
+test('the log keeps only the latest events, oldest first, and skips unlogged ones', () => {
+  const bus = createEventBus<TestEvents>({ logSize: 3, unlogged: ['tick'] });
+  [1, 2, 3, 4, 5].forEach(damage => {
+    bus.emit('hit', { damage });
+    bus.emit('tick', { time: damage });
+  });
+
+  const log = bus.log();
+  assert.deepEqual(log.map(entry => entry.payload), [{ damage: 3 }, { damage: 4 }, { damage: 5 }]);
+  assert.deepEqual(log.map(entry => entry.id), [3, 4, 5]);
+
+  bus.clearLog();
+  assert.deepEqual(bus.log(), []);
+  bus.emit('hit', { damage: 6 });
+  assert.equal(bus.log()[0].id, 6, 'ids keep counting after a clear');
+});
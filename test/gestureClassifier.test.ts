@@ -0,0 +1,12 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyGesture } from '../src/lib/gestureClassifier';
+import { GESTURE_FIXTURES, findFixtureMismatches } from './gestureFixtures';
+
+test('the classifier labels every fixture pose correctly', () => {
+  assert.ok(GESTURE_FIXTURES.length > 0, 'no fixtures');
+  const mismatches = findFixtureMismatches(classifyGesture).map(
+    mismatch => `${mismatch.label} (${mismatch.description}) classified as ${mismatch.actual}`
+  );
+  assert.deepEqual(mismatches, []);
+});
@@ -0,0 +1,116 @@
+import type { Handedness } from '../src/types/hand';
+
+// Labeled landmark fixtures for the gesture classifier.
+// Base poses are an upright right hand (fingers up, palm facing the camera) in video pixels,
+// 21 × [x, y, z] in MediaPipe order. Variants rotate, tilt and mirror them to cover the poses
+// the old y-axis heuristics got wrong.
+
+export interface GestureFixture {
+  label: string;
+  description: string;
+  handedness: Handedness;
+  landmarks: number[][];
+}
+
+const BASE_POSES: Record<string, number[][]> = {
+  fist: [
+    [320, 360, 0],
+    [342, 342, -4], [333.4, 323.6, -23.3], [333.2, 323.1, -47.3], [337.9, 333.1, -64],
+    [345, 270, 0], [345.5, 266.6, -39.8], [341.8, 291.2, -37.7], [340.1, 302.5, -54.1],
+    [325, 265, 0], [325, 261.1, -44.8], [325, 289, -42.4], [325, 301.6, -60.4],
+    [305, 270, 0], [304.6, 266.5, -39.8], [307.7, 292.3, -37.6], [309, 303.6, -54],
+    [287, 280, 0], [286.4, 277.5, -29.9], [291.2, 296.8, -28.1], [293.7, 306.8, -42.9]
+  ],
+  palm: [
+    [320, 360, 0],
+    [342, 342, -4], [366.8, 326, -9.5], [388.2, 312.1, -18.2], [405.8, 300.7, -27.8],
+    [345, 270, 0], [350.9, 230.6, -3.5], [354.5, 206.5, -9.1], [357.3, 187.7, -15.3],
+    [325, 265, 0], [325, 220.2, -3.9], [325, 192.9, -10.2], [325, 172, -17],
+    [305, 270, 0], [300.3, 230.4, -3.5], [297.2, 205.3, -9.3], [295, 186.4, -15.5],
+    [287, 280, 0], [279.8, 251, -2.6], [275, 232.1, -7.1], [270.9, 215.5, -12.7]
+  ],
+  point: [
+    [320, 360, 0],
+    [342, 342, -4], [333.4, 323.6, -23.3], [333.2, 323.1, -47.3], [337.9, 333.1, -64],
+    [345, 270, 0], [350.9, 230.6, -3.5], [354.5, 206.5, -9.1], [357.3, 187.7, -15.3],
+    [325, 265, 0], [325, 261.1, -44.8], [325, 289, -42.4], [325, 301.6, -60.4],
+    [305, 270, 0], [304.6, 266.5, -39.8], [307.7, 292.3, -37.6], [309, 303.6, -54],
+    [287, 280, 0], [286.4, 277.5, -29.9], [291.2, 296.8, -28.1], [293.7, 306.8, -42.9]
+  ],
+  peace: [
+    [320, 360, 0],
+    [342, 342, -4], [333.4, 323.6, -23.3], [333.2, 323.1, -47.3], [337.9, 333.1, -64],
+    [345, 270, 0], [350.9, 230.6, -3.5], [354.5, 206.5, -9.1], [357.3, 187.7, -15.3],
+    [325, 265, 0], [325, 220.2, -3.9], [325, 192.9, -10.2], [325, 172, -17],
+    [305, 270, 0], [304.6, 266.5, -39.8], [307.7, 292.3, -37.6], [309, 303.6, -54],
+    [287, 280, 0], [286.4, 277.5, -29.9], [291.2, 296.8, -28.1], [293.7, 306.8, -42.9]
+  ],
+  rock: [
+    [320, 360, 0],
+    [342, 342, -4], [366.8, 326, -9.5], [388.2, 312.1, -18.2], [405.8, 300.7, -27.8],
+    [345, 270, 0], [350.9, 230.6, -3.5], [354.5, 206.5, -9.1], [357.3, 187.7, -15.3],
+    [325, 265, 0], [325, 261.1, -44.8], [325, 289, -42.4], [325, 301.6, -60.4],
+    [305, 270, 0], [304.6, 266.5, -39.8], [307.7, 292.3, -37.6], [309, 303.6, -54],
+    [287, 280, 0], [279.8, 251, -2.6], [275, 232.1, -7.1], [270.9, 215.5, -12.7]
+  ],
+  shaka: [
+    [320, 360, 0],
+    [342, 342, -4], [366.8, 326, -9.5], [388.2, 312.1, -18.2], [405.8, 300.7, -27.8],
+    [345, 270, 0], [345.5, 266.6, -39.8], [341.8, 291.2, -37.7], [340.1, 302.5, -54.1],
+    [325, 265, 0], [325, 261.1, -44.8], [325, 289, -42.4], [325, 301.6, -60.4],
+    [305, 270, 0], [304.6, 266.5, -39.8], [307.7, 292.3, -37.6], [309, 303.6, -54],
+    [287, 280, 0], [279.8, 251, -2.6], [275, 232.1, -7.1], [270.9, 215.5, -12.7]
+  ]
+};
+
+const IN_PLANE_ROTATIONS = [0, 45, 90, 135, 180, 225, 270, 315];
+const TILTS = [-35, 35];
+
+// Rotate around the wrist - `axis` picks the rotation plane
+const rotate = (landmarks: number[][], degrees: number, axis: 'z' | 'x' | 'y') => {
+  const [ox, oy, oz] = landmarks[0];
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  return landmarks.map(([x, y, z]) => {
+    const [dx, dy, dz] = [x - ox, y - oy, z - oz];
+    if (axis === 'z') return [ox + dx * cos - dy * sin, oy + dx * sin + dy * cos, z];
+    if (axis === 'x') return [x, oy + dy * cos - dz * sin, oz + dy * sin + dz * cos];
+    return [ox + dx * cos + dz * sin, y, oz - dx * sin + dz * cos];
+  });
+};
+
+// A left hand is the mirror image of a right hand
+const mirror = (landmarks: number[][]) => {
+  const ox = landmarks[0][0];
+  return landmarks.map(([x, y, z]) => [2 * ox - x, y, z]);
+};
+
+const round = (landmarks: number[][]) =>
+  landmarks.map(point => point.map(v => Math.round(v * 10) / 10));
+
+export const GESTURE_FIXTURES: GestureFixture[] = Object.entries(BASE_POSES).flatMap(([label, pose]) =>
+  (['Right', 'Left'] as const).flatMap(handedness => {
+    const hand = handedness === 'Right' ? pose : mirror(pose);
+    const rotated = IN_PLANE_ROTATIONS.map(degrees => ({
+      label,
+      description: `${handedness} hand rotated ${degrees}°`,
+      handedness,
+      landmarks: round(rotate(hand, degrees, 'z'))
+    }));
+    const tilted = TILTS.flatMap(degrees => (['x', 'y'] as const).map(axis => ({
+      label,
+      description: `${handedness} hand tilted ${degrees}° around ${axis}`,
+      handedness,
+      landmarks: round(rotate(rotate(hand, degrees, axis), 120, 'z'))
+    })));
+    return [...rotated, ...tilted];
+  })
+);
+
+// Returns every fixture the classifier labels differently - empty means all pass
+export const findFixtureMismatches = (classify: (landmarks: number[][]) => string) =>
+  GESTURE_FIXTURES
+    .map(fixture => ({ ...fixture, actual: classify(fixture.landmarks) }))
+    .filter(result => result.actual !== result.label);
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGestureDebouncer, createOneEuroFilter, type HandFilterConfig } from '../src/lib/handFilter';
+
+const CONFIG: HandFilterConfig = { minCutoff: 1, beta: 0.007, derivateCutoff: 1, gestureHoldMs: 120, unknownHoldMs: 300 };
+
+// 30 fps frames from 0 ms
+const frameTimes = (count: number) => Array.from({ length: count }, (_, index) => index * (1000 / 30));
+
+test('the One-Euro filter passes the first value through and settles on a steady one', () => {
+  const filter = createOneEuroFilter(CONFIG);
+  assert.equal(filter(42, 0), 42);
+  const settled = frameTimes(60).slice(1).map(t => filter(42, t));
+  settled.forEach(value => assert.equal(value, 42));
+});
+
+test('the One-Euro filter damps jitter around a still point', () => {
+  const filter = createOneEuroFilter(CONFIG);
+  const outputs = frameTimes(60).map((t, index) => filter(index % 2 === 0 ? 98 : 102, t));
+  const tail = outputs.slice(30);
+  const spread = Math.max(...tail) - Math.min(...tail);
+  assert.ok(spread < 2, `filtered spread ${spread} should be under half the raw 4`);
+});
+
+test('the One-Euro filter lags less the faster the value moves', () => {
+  const lagAt = (speedPerFrame: number) => {
+    const filter = createOneEuroFilter({ ...CONFIG, beta: 0.05 });
+    let lag = 0;
+    frameTimes(30).forEach((t, index) => {
+      const value = index * speedPerFrame;
+      lag = value - filter(value, t);
+    });
+    return lag / speedPerFrame;
+  };
+  assert.ok(lagAt(40) < lagAt(1), 'a fast move should trail by fewer frames than a slow one');
+});
+
+test('the debouncer only switches after a gesture has been held', () => {
+  const debounce = createGestureDebouncer(CONFIG);
+  assert.equal(debounce('fist', 0), 'none');
+  assert.equal(debounce('fist', 100), 'none');
+  assert.equal(debounce('fist', 120), 'fist');
+});
+
+test('the debouncer ignores a one-frame flicker', () => {
+  const debounce = createGestureDebouncer(CONFIG);
+  debounce('fist', 0);
+  debounce('fist', 150);
+  assert.equal(debounce('palm', 180), 'fist');
+  assert.equal(debounce('fist', 210), 'fist');
+  // The flicker doesn't count towards a later palm
+  assert.equal(debounce('palm', 240), 'fist');
+  assert.equal(debounce('palm', 300), 'fist');
+  assert.equal(debounce('palm', 360), 'palm');
+});
+
+test('the debouncer holds longer before dropping to unknown', () => {
+  const debounce = createGestureDebouncer(CONFIG);
+  debounce('fist', 0);
+  debounce('fist', 150);
+  assert.equal(debounce('unknown', 200), 'fist');
+  assert.equal(debounce('unknown', 400), 'fist');
+  assert.equal(debounce('unknown', 500), 'unknown');
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLeaderboard, rankEntries, type LeaderboardEntry } from '../src/lib/leaderboard';
+
+// Local noon, so "today" has room on both sides whatever the machine's time zone
+const NOW = new Date(2026, 5, 15, 12).getTime();
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const entry = (id: string, score: number, ageMs: number, mode: LeaderboardEntry['mode'] = 'survival'): LeaderboardEntry => ({
+  id,
+  mode,
+  score,
+  hits: 10,
+  maxCombo: 3,
+  durationMs: 60_000,
+  playerName: '마법사',
+  date: new Date(NOW - ageMs).toISOString()
+});
+
+const ENTRIES = [
+  entry('this-morning', 300, 3 * HOUR_MS),
+  entry('yesterday', 900, 13 * HOUR_MS),
+  entry('last-week', 500, 6 * DAY_MS),
+  entry('last-month', 700, 20 * DAY_MS),
+  entry('last-year', 1000, 300 * DAY_MS),
+  entry('other-mode', 5000, HOUR_MS, 'timeAttack')
+];
+
+const rankedIds = (range: Parameters<typeof rankEntries>[2]) =>
+  rankEntries(ENTRIES, 'survival', range, NOW).map(({ id }) => id);
+
+test('each time range keeps only the runs inside it, best first', () => {
+  assert.deepEqual(rankedIds('today'), ['this-morning']);
+  assert.deepEqual(rankedIds('week'), ['yesterday', 'last-week', 'this-morning']);
+  assert.deepEqual(rankedIds('month'), ['yesterday', 'last-month', 'last-week', 'this-morning']);
+  assert.deepEqual(rankedIds('all'), ['last-year', 'yesterday', 'last-month', 'last-week', 'this-morning']);
+});
+
+test('equal scores go to whoever got there first', () => {
+  const ranked = rankEntries([entry('later', 500, HOUR_MS), entry('earlier', 500, 2 * HOUR_MS)], 'survival', 'all', NOW);
+  assert.deepEqual(ranked.map(({ id }) => id), ['earlier', 'later']);
+});
+
+const exported = (entries: unknown[], version: unknown = 1) =>
+  JSON.stringify({ version, exportedAt: new Date(NOW).toISOString(), entries });
+
+test('an exported file reads back as the same entries', () => {
+  assert.deepEqual(parseLeaderboard(exported(ENTRIES)), ENTRIES);
+});
+
+test('a malformed file is refused with every problem listed', () => {
+  assert.throws(() => parseLeaderboard('not json'), /올바른 JSON이 아닙니다/);
+  assert.throws(() => parseLeaderboard('{"version":1}'), /"entries" 배열이 없습니다/);
+  assert.throws(() => parseLeaderboard(exported(ENTRIES, 2)), /지원하지 않는 순위표 버전/);
+
+  const bad = [
+    { ...entry('a', 100, 0), mode: 'arcade' },
+    { ...entry('b', 100, 0), score: -1, date: 'yesterday' },
+    'c'
+  ];
+  assert.throws(() => parseLeaderboard(exported(bad)), (err: Error) =>
+    ['entries[0].mode', 'entries[1].score', 'entries[1].date', 'entries[2]: 객체여야 합니다']
+      .every(problem => err.message.includes(problem))
+  );
+});
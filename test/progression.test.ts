@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { addExperience, experienceToNextLevel, type ExperienceCurve } from '../src/game/progression';
+import { SAVE_VERSION, createSave, migrateSave, newProgression, parseSave } from '../src/lib/saves';
+import { MAX_MANA } from '../src/game/constants';
+
+// 100 XP for level 1 → 2, then 200, 400, ...
+const CURVE: ExperienceCurve = { base: 100, growth: 2 };
+
+test('each level needs more experience than the last', () => {
+  assert.deepEqual([1, 2, 3, 4].map(level => experienceToNextLevel(level, CURVE)), [100, 200, 400, 800]);
+});
+
+test('experience below the next level only fills the bar', () => {
+  assert.deepEqual(addExperience({ level: 1, experience: 20 }, 50, CURVE), { level: 1, experience: 70 });
+});
+
+test('a big gain crosses several levels and carries the rest over', () => {
+  // 100 + 200 + 400 to reach level 4, leaving 50 of the 800 needed for level 5
+  assert.deepEqual(addExperience({ level: 1, experience: 0 }, 750, CURVE), { level: 4, experience: 50 });
+  assert.deepEqual(addExperience({ level: 2, experience: 150 }, 50, CURVE), { level: 3, experience: 0 });
+});
+
+const V1_SAVE = { version: 1, level: 3, experience: 40, mana: 80, savedAt: '2026-01-01T00:00:00.000Z' };
+
+test('a v1 save is migrated with its talent points unspent', () => {
+  assert.deepEqual(migrateSave(V1_SAVE), { ...V1_SAVE, version: SAVE_VERSION, talents: {} });
+});
+
+test('a current save round-trips through JSON', () => {
+  const save = createSave({ ...newProgression(), level: 5, talents: { 'mana-flow': 2 } });
+  assert.deepEqual(parseSave(JSON.stringify(save)), save);
+  assert.equal(newProgression().mana, MAX_MANA);
+});
+
+test('saves from the future, without a version or out of range are refused', () => {
+  assert.throws(() => migrateSave({ ...V1_SAVE, version: SAVE_VERSION + 1 }), /더 최신 버전/);
+  assert.throws(() => migrateSave({ level: 3 }), /버전 정보가 없습니다/);
+  assert.throws(() => migrateSave({ ...V1_SAVE, mana: MAX_MANA + 1 }), /save\.mana/);
+  assert.throws(() => migrateSave({ ...V1_SAVE, version: 2, talents: { 'mana-flow': -1 } }), /save\.talents/);
+  assert.throws(() => parseSave('{'), /올바른 JSON이 아닙니다/);
+});
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HandData } from '../src/types/hand';
+import { createStrokeTracker, recognizeStroke } from '../src/lib/strokeRecognizer';
+
+type Point = { x: number; y: number };
+
+// Evenly spaced points along straight segments, in screen pixels
+const drawLines = (corners: Array<[number, number]>, pointsPerSegment = 12): Point[] => [
+  { x: corners[0][0], y: corners[0][1] },
+  ...corners.slice(1).flatMap(([x, y], index) => {
+    const [fromX, fromY] = corners[index];
+    return Array.from({ length: pointsPerSegment }, (_, step) => {
+      const t = (step + 1) / pointsPerSegment;
+      return { x: fromX + (x - fromX) * t, y: fromY + (y - fromY) * t };
+    });
+  })
+];
+
+const drawCircle = (cx: number, cy: number, radius: number, startDegrees: number, direction: 1 | -1, count = 40) =>
+  Array.from({ length: count + 1 }, (_, i) => {
+    const angle = (startDegrees * Math.PI) / 180 + direction * (i / count) * Math.PI * 2;
+    return { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) };
+  });
+
+test('circles are recognised from any start point and in either direction', () => {
+  [0, 70, 200].forEach(start => {
+    ([1, -1] as const).forEach(direction => {
+      assert.equal(recognizeStroke(drawCircle(400, 300, 150, start, direction))?.name, 'circle', `${start}° ${direction}`);
+    });
+  });
+});
+
+test('horizontal swipes, zigzags and Zs are told apart', () => {
+  assert.equal(recognizeStroke(drawLines([[100, 300], [600, 300]]))?.name, 'swipe');
+  assert.equal(recognizeStroke(drawLines([[600, 300], [100, 300]]))?.name, 'swipe');
+  assert.equal(
+    recognizeStroke(drawLines([[100, 300], [180, 400], [260, 300], [340, 400], [420, 300], [500, 400]]))?.name,
+    'zigzag'
+  );
+  assert.equal(recognizeStroke(drawLines([[100, 100], [400, 100], [100, 400], [400, 400]]))?.name, 'z');
+});
+
+test('a vertical line is not a swipe', () => {
+  assert.notEqual(recognizeStroke(drawLines([[300, 100], [300, 600]]))?.name, 'swipe');
+});
+
+test('jitter and short strokes are ignored', () => {
+  const jitter = Array.from({ length: 40 }, (_, i) => ({ x: 300 + 8 * Math.sin(i), y: 300 + 8 * Math.cos(i * 1.3) }));
+  assert.equal(recognizeStroke(jitter), null);
+  assert.equal(recognizeStroke(drawCircle(400, 300, 30, 0, 1)), null);
+  assert.equal(recognizeStroke(drawLines([[100, 300], [600, 300]], 3)), null);
+});
+
+// A hand whose index tip (landmark 8) is at the given point
+const handAt = ({ x, y }: Point): HandData => ({
+  id: 1,
+  handedness: 'Right',
+  keypoints: Array.from({ length: 21 }, (_, index) => ({ x, y, z: 0, name: `landmark${index}` })),
+  gesture: 'point',
+  confidence: 1,
+  boundingBox: { topLeft: [x, y], bottomRight: [x, y] },
+  trail: [],
+  rune: null
+});
+
+test('the tracker puts a drawn rune on the hand and restarts its trail', () => {
+  const tracker = createStrokeTracker();
+  const swipe = drawLines([[100, 300], [600, 300]], 20);
+  let hand = handAt(swipe[0]);
+  let recognizedFrame = -1;
+
+  swipe.forEach((point, frame) => {
+    [hand] = tracker.apply([handAt(point)], frame * 25);
+    if (hand.rune && recognizedFrame < 0) recognizedFrame = frame;
+  });
+
+  assert.ok(recognizedFrame > 0, 'the swipe was never recognised');
+  assert.equal(hand.rune?.name, 'swipe');
+  assert.ok(hand.trail.length < swipe.length - recognizedFrame, 'the trail should restart after a match');
+});
+
+test('the tracker forgets hands that leave the frame', () => {
+  const tracker = createStrokeTracker();
+  drawLines([[100, 300], [600, 300]], 20).forEach((point, frame) => tracker.apply([handAt(point)], frame * 25));
+  tracker.apply([], 2000);
+  const [hand] = tracker.apply([handAt({ x: 0, y: 0 })], 2025);
+  assert.equal(hand.rune, null);
+  assert.equal(hand.trail.length, 1);
+});
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  NO_TALENT_MODIFIERS,
+  TALENT_TREE,
+  parseTalentTree,
+  spellUnlockLevel,
+  talentBlocker,
+  talentModifiers,
+  type TalentNode
+} from '../src/game/talents';
+
+const node = (id: string, effect: TalentNode['effect'], extra: Partial<TalentNode> = {}): TalentNode => ({
+  id,
+  branch: 'mana',
+  name: id,
+  icon: '✨',
+  description: id,
+  maxRank: 3,
+  minLevel: 1,
+  requires: [],
+  effect,
+  ...extra
+});
+
+const TREE: TalentNode[] = [
+  node('flow', { type: 'manaRegen', perRank: 0.5 }),
+  node('hands', { type: 'chargeSpeed', perRank: 0.2 }, { branch: 'casting' }),
+  node('fire', { type: 'elementDamage', element: 'fire', perRank: 0.1 }, { branch: 'elements' }),
+  node('storm', { type: 'unlockSpell', spellId: 'lightning' }, { maxRank: 1, minLevel: 5, requires: ['fire'] })
+];
+
+test('nothing learned leaves the game as it is, with unlockable spells locked', () => {
+  const modifiers = talentModifiers({}, TREE);
+  assert.equal(modifiers.manaRegenBonus, 0);
+  assert.equal(modifiers.chargeTimeMultiplier, 1);
+  assert.ok(Object.values(modifiers.elementDamage).every(multiplier => multiplier === 1));
+  assert.deepEqual(modifiers.lockedSpells, ['lightning']);
+  assert.deepEqual(NO_TALENT_MODIFIERS, { ...modifiers, lockedSpells: [] });
+});
+
+test('each rank adds its effect once', () => {
+  const modifiers = talentModifiers({ flow: 2, hands: 1, fire: 3, storm: 1 }, TREE);
+  assert.equal(modifiers.manaRegenBonus, 1);
+  assert.ok(Math.abs(modifiers.chargeTimeMultiplier - 0.8) < 1e-9);
+  assert.ok(Math.abs(modifiers.elementDamage.fire - 1.3) < 1e-9);
+  assert.equal(modifiers.elementDamage.water, 1);
+  assert.deepEqual(modifiers.lockedSpells, []);
+});
+
+test('charge time never drops below half', () => {
+  assert.equal(talentModifiers({ hands: 3 }, TREE).chargeTimeMultiplier, 0.5);
+});
+
+test('a rank is blocked by max rank, level, prerequisites and points, in that order', () => {
+  const [flow, , , storm] = TREE;
+  assert.equal(talentBlocker(flow, 5, { flow: 3 }, TREE), '최대 랭크');
+  assert.equal(talentBlocker(storm, 4, {}, TREE), 'Lv.5 필요');
+  assert.equal(talentBlocker(storm, 5, {}, TREE), 'fire 필요');
+  assert.equal(talentBlocker(storm, 5, { fire: 2, flow: 2 }, TREE), '포인트 부족');
+  assert.equal(talentBlocker(storm, 5, { fire: 1 }, TREE), null);
+});
+
+test('unlock talents report the level their spell opens at', () => {
+  assert.equal(spellUnlockLevel('lightning', TREE), 5);
+  assert.equal(spellUnlockLevel('fireball', TREE), null);
+});
+
+test('the bundled tree is valid', () => {
+  assert.ok(TALENT_TREE.length > 0);
+});
+
+test('a tree linking to missing talents or spells is rejected', () => {
+  const broken = {
+    talents: [
+      node('a', { type: 'unlockSpell', spellId: 'meteor' }),
+      node('b', { type: 'manaRegen', perRank: 1 }, { requires: ['ghost'] })
+    ]
+  };
+  assert.throws(() => parseTalentTree(broken, ['fireball']), (err: Error) =>
+    err.message.includes('talents[0] (a).effect.spellId') && err.message.includes('talents[1] (b).requires')
+  );
+});
@@ -0,0 +1,5 @@
+import { register } from 'node:module';
+
+// Vite fills in import.meta.env at build time. Under Node it doesn't exist, so give the modules under test
+// an empty one and every VITE_* setting falls back to its default, as in an unconfigured build.
+register('./viteEnvHooks.ts', import.meta.url);
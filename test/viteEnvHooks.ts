@@ -0,0 +1,10 @@
+import type { LoadHook } from 'node:module';
+
+const VITE_ENV = { MODE: 'test', BASE_URL: '/', DEV: false, PROD: false, SSR: true };
+
+// Prefixes the first line only, so source positions in stack traces stay put
+export const load: LoadHook = async (url, context, nextLoad) => {
+  const result = await nextLoad(url, context);
+  if (result.format !== 'module' || !url.includes('/src/') || result.source === undefined) return result;
+  return { ...result, source: `import.meta.env ??= ${JSON.stringify(VITE_ENV)};${String(result.source)}` };
+};
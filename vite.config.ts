@@ -1,9 +1,48 @@
-import { defineConfig } from 'vite'
+import { readFileSync, readdirSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { dirname, extname, join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// The MediaPipe WASM runtime loads its files at run time, so they are served from the installed package
+// (in dev) and copied into the build instead of coming from a CDN
+const MEDIAPIPE_HANDS_URL = 'mediapipe/hands'
+const mediaPipeHandsDir = dirname(createRequire(import.meta.url).resolve('@mediapipe/hands/package.json'))
+const MEDIAPIPE_HANDS_SKIP = ['README.md', 'index.d.ts', 'package.json']
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm'
+}
+
+const mediaPipeHandsAssets = (): Plugin => {
+  const files = readdirSync(mediaPipeHandsDir).filter(file => !MEDIAPIPE_HANDS_SKIP.includes(file))
+
+  return {
+    name: 'mediapipe-hands-assets',
+    configureServer(server) {
+      server.middlewares.use(`/${MEDIAPIPE_HANDS_URL}`, (req, res, next) => {
+        const file = (req.url ?? '').split('?')[0].replace(/^\//, '')
+        if (!files.includes(file)) return next()
+        res.setHeader('Content-Type', CONTENT_TYPES[extname(file)] ?? 'application/octet-stream')
+        res.end(readFileSync(join(mediaPipeHandsDir, file)))
+      })
+    },
+    generateBundle() {
+      files.forEach(file => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${MEDIAPIPE_HANDS_URL}/${file}`,
+          source: readFileSync(join(mediaPipeHandsDir, file))
+        })
+      })
+    }
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediaPipeHandsAssets()],
   server: {
     host: true, // Listen on all addresses
     port: 5173,